@@ -1,5 +1,6 @@
 import { CaniasWebService } from './nodes/CaniasWebService/CaniasWebService.node';
+import { CaniasWebServiceTrigger } from './nodes/CaniasWebServiceTrigger/CaniasWebServiceTrigger.node';
 import { CaniasWebServiceApi } from './credentials/CaniasWebServiceApi.credentials';
 
-export const nodes = [CaniasWebService];
+export const nodes = [CaniasWebService, CaniasWebServiceTrigger];
 export const credentials = [CaniasWebServiceApi];
\ No newline at end of file
@@ -1,75 +1,725 @@
-import * as soap from 'soap';
 import {
+	IBinaryKeyData,
+	ICredentialDataDecryptedObject,
+	IDataObject,
+	IDisplayOptions,
 	IExecuteFunctions,
 	INodeExecutionData,
+	INodeProperties,
 	INodeType,
 	INodeTypeDescription,
+	NodeOperationError,
 } from 'n8n-workflow';
 
 import type {
+	BinaryArgsInjection,
+	BinaryOutputMode,
 	CallArgsMode,
+	CaniasLocale,
+	CatalogValidation,
+	ClientMode,
+	FixtureStorage,
+	IAgentFunction,
+	IAgentResultLimits,
+	IArgsFormatOptions,
 	ICANIASClient,
-	ICallIASServiceResponse,
-	IListIASServicesResponse,
-	ILoginResponse,
+	IClientConfig,
+	IDecodedBinaryResult,
+	ILocaleConversionOptions,
+	ILocaleFieldRule,
+	ILocaleFormat,
+	ILoginOverrides,
 	IParsedListServicesResult,
 	IParsedLoginResult,
 	IParsedLogoutResult,
+	IPaginationOptions,
+	IRetryOptions,
+	ISchema,
+	IServiceCatalogEntry,
+	IServiceListOptions,
+	ISoapHeader,
+	ISessionPoolOptions,
+	IXmlParseOptions,
+	ITableOptions,
+	ITypedArgument,
+	ListOutputMode,
+	LocaleResultConversion,
 	OperationType,
+	OutputMode,
+	OutputParsing,
+	PageInjection,
+	PageParameter,
+	PaginationStop,
+	SessionHandling,
+	WsdlSource,
 } from './types';
-import { handleSOAPError, validateServiceId, validateSessionId } from './errorHandling';
+import { randomUUID } from 'crypto';
+import {
+	buildAgentArgs,
+	DEFAULT_AGENT_RESULT_LIMITS,
+	describeAgentFunctions,
+	LIST_FUNCTIONS,
+	resolveAgentFunctions,
+	trimAgentResult,
+} from './agentTool';
+import type { IAgentFunctionDefinition } from './agentTool';
+import { ArgumentValidationError, buildArgsString } from './argsBuilder';
+import { decodeBinaryResult } from './binaryData';
+import {
+	buildErrorPayload,
+	createSOAPError,
+	validateServiceId,
+	validateSessionId,
+} from './errorHandling';
+import {
+	filterServiceList,
+	parseCallServiceResponse,
+	parseListServicesResponse,
+	parseLoginResponse,
+	parseLogoutResponse,
+	parseServiceResult,
+	ResultParseError,
+} from './responseParsing';
+import {
+	DEFAULT_CLIENT_CACHE_TTL_MS,
+	getClient,
+	getClientCacheKey,
+	invalidateClient,
+} from './clientCache';
+import { mapWithConcurrency } from './concurrency';
+import { caniasWebServiceApiTest } from './credentialTest';
+import { applyEnvironment, getEnvironments } from './environments';
+import { FixtureMissError, FixtureStore, fileStorage, staticDataStorage } from './fixtures';
+import { toSoapHeaderXml, validateHttpHeaderName, validateSoapHeaderXml } from './headers';
+import { searchServices } from './listSearch';
+import {
+	LOCALE_FORMATS,
+	convertResultLocale,
+	formatArgsLocale,
+	getLocaleFromLanguage,
+} from './localeConversion';
+import { PaginationError, collectPages, injectPage } from './pagination';
+import { DEFAULT_RETRY_CATEGORIES, withRetry } from './retry';
+import { ManagedSession, resolveLoginRequest } from './session';
+import { getSessionFingerprint } from './sessionPool';
+import { extractTable } from './tableParsing';
+import {
+	applyResultSchema,
+	assertValidArgs,
+	coerceToSchema,
+	getCatalogEntry,
+	parseServiceCatalog,
+	SchemaValidationError,
+} from './schemaCatalog';
+import { SoapTracer } from './trace';
+import { getTransportConfig } from './transport';
 
 // ============================================================================
-// RESPONSE PARSING HELPERS
+// PARAMETER HELPERS
 // ============================================================================
 
 /**
- * Parse login response (Axis 1.4 rpc/encoded format)
+ * Login override fields, shown for the login operation and for automatic session handling
+ */
+function loginOverrideProperties(displayOptions: IDisplayOptions): INodeProperties[] {
+	return [
+		{
+			displayName: 'Client Override',
+			name: 'clientOverride',
+			type: 'string',
+			default: '',
+			placeholder: 'Leave empty to use credential default',
+			displayOptions,
+			description: 'Optional. Override the Client number from credentials',
+		},
+		{
+			displayName: 'Language Override',
+			name: 'languageOverride',
+			type: 'string',
+			default: '',
+			placeholder: 'Leave empty to use credential default',
+			displayOptions,
+			description: 'Optional. Override the Language from credentials',
+		},
+		{
+			displayName: 'DB Name Override',
+			name: 'dbNameOverride',
+			type: 'string',
+			default: '',
+			placeholder: 'Leave empty to use credential default',
+			displayOptions,
+			description: 'Optional. Override the DB Name from credentials (useful with multiple databases)',
+		},
+		{
+			displayName: 'DB Server Override',
+			name: 'dbServerOverride',
+			type: 'string',
+			default: '',
+			placeholder: 'Leave empty to use credential default',
+			displayOptions,
+			description: 'Optional. Override the DB Server from credentials',
+		},
+		{
+			displayName: 'App Server Override',
+			name: 'appServerOverride',
+			type: 'string',
+			default: '',
+			placeholder: 'Leave empty to use credential default',
+			displayOptions,
+			description: 'Optional. Override the App Server from credentials (useful with multiple web services)',
+		},
+		{
+			displayName: 'Username Override',
+			name: 'usernameOverride',
+			type: 'string',
+			default: '',
+			placeholder: 'Leave empty to use credential default',
+			displayOptions,
+			description: 'Optional. Override the Username from credentials',
+		},
+		{
+			displayName: 'Password Override',
+			name: 'passwordOverride',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			placeholder: 'Leave empty to use credential default',
+			displayOptions,
+			description: 'Optional. Override the Password from credentials',
+		},
+	];
+}
+
+/**
+ * Read login override parameters for an item
+ */
+function getLoginOverrides(context: IExecuteFunctions, itemIndex: number): ILoginOverrides {
+	return {
+		client: context.getNodeParameter('clientOverride', itemIndex, '') as string,
+		language: context.getNodeParameter('languageOverride', itemIndex, '') as string,
+		dbName: context.getNodeParameter('dbNameOverride', itemIndex, '') as string,
+		dbServer: context.getNodeParameter('dbServerOverride', itemIndex, '') as string,
+		appServer: context.getNodeParameter('appServerOverride', itemIndex, '') as string,
+		username: context.getNodeParameter('usernameOverride', itemIndex, '') as string,
+		password: context.getNodeParameter('passwordOverride', itemIndex, '') as string,
+	};
+}
+
+/**
+ * Credential values with the environment profile selected for an item
+ */
+function getEnvironmentCredentials(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	credentials: ICredentialDataDecryptedObject,
+): ICredentialDataDecryptedObject {
+	try {
+		return applyEnvironment(
+			credentials,
+			context.getNodeParameter('environment', itemIndex, '') as string,
+		);
+	} catch (error) {
+		throw new NodeOperationError(context.getNode(), error as Error, {
+			itemIndex,
+			description: 'Check the Environment parameter and the Environment Profiles of the credential',
+		});
+	}
+}
+
+/**
+ * Read session pool options for an item (converted to milliseconds)
+ */
+function getSessionPoolOptions(context: IExecuteFunctions, itemIndex: number): ISessionPoolOptions {
+	const options = context.getNodeParameter('sessionPool', itemIndex, {}) as {
+		idleTimeout?: number;
+		maxSessions?: number;
+		acquireTimeout?: number;
+	};
+
+	return {
+		idleTimeout: (options.idleTimeout ?? 300) * 1000,
+		maxSessions: Math.max(1, options.maxSessions ?? 2),
+		acquireTimeout: (options.acquireTimeout ?? 60) * 1000,
+	};
+}
+
+/**
+ * Build retry options from the Advanced > Retry settings (undefined when retry is not configured)
+ */
+function getRetryOptions(settings: Partial<IRetryOptions> | undefined): IRetryOptions | undefined {
+	if (!settings) {
+		return undefined;
+	}
+
+	return {
+		maxAttempts: Math.max(1, settings.maxAttempts ?? 3),
+		baseDelay: settings.baseDelay ?? 500,
+		maxDelay: settings.maxDelay ?? 10000,
+		jitter: settings.jitter ?? true,
+		categories: settings.categories ?? DEFAULT_RETRY_CATEGORIES,
+		retryPermanent: settings.retryPermanent ?? false,
+	};
+}
+
+/**
+ * Custom headers from the Advanced options
  */
-function parseLoginResponse(res: ILoginResponse): IParsedLoginResult {
-	if (res && typeof res === 'object' && 'loginReturn' in res && res.loginReturn) {
-		return { sessionId: res.loginReturn };
+interface IHeaderSettings {
+	correlationId?: string;
+	correlationIdHeader?: string;
+	httpHeaders?: { header?: Array<{ name: string; value: string }> };
+	soapHeaders?: { header?: ISoapHeader[]; rawXml?: Array<{ xml: string }> };
+}
+
+/**
+ * Read the custom HTTP and SOAP headers of an item; they are sent with every operation of its client
+ */
+function getCustomHeaders(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	settings: IHeaderSettings,
+): Pick<IClientConfig, 'httpHeaders' | 'soapHeaders'> {
+	try {
+		const httpHeaders: Record<string, string> = {};
+		for (const { name, value } of settings.httpHeaders?.header ?? []) {
+			httpHeaders[validateHttpHeaderName(name)] = String(value ?? '');
+		}
+
+		const soapHeaders = [
+			...(settings.soapHeaders?.header ?? []).map((header) => toSoapHeaderXml(header)),
+			...(settings.soapHeaders?.rawXml ?? []).map(({ xml }) => validateSoapHeaderXml(xml)),
+		];
+
+		return {
+			httpHeaders: Object.keys(httpHeaders).length > 0 ? httpHeaders : undefined,
+			soapHeaders: soapHeaders.length > 0 ? soapHeaders : undefined,
+		};
+	} catch (error) {
+		throw new NodeOperationError(context.getNode(), error as Error, {
+			itemIndex,
+			description: 'Check Advanced > HTTP Headers and SOAP Headers',
+		});
+	}
+}
+
+/**
+ * Correlation ID header sent with the item's own requests (undefined when no header name is set)
+ */
+function getCorrelationHeader(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	settings: IHeaderSettings,
+): { name: string; id: string } | undefined {
+	if (!settings.correlationIdHeader?.trim()) {
+		return undefined;
+	}
+
+	try {
+		return {
+			name: validateHttpHeaderName(settings.correlationIdHeader),
+			id: settings.correlationId?.trim() || randomUUID(),
+		};
+	} catch (error) {
+		throw new NodeOperationError(context.getNode(), error as Error, { itemIndex });
 	}
-	// Fallback for direct string response
-	if (typeof res === 'string') {
-		return { sessionId: res as any };
+}
+
+/**
+ * Read XML parsing options for an item
+ */
+function getXmlParseOptions(context: IExecuteFunctions, itemIndex: number): IXmlParseOptions {
+	const { forceArray, ...options } = context.getNodeParameter('xmlOptions', itemIndex, {}) as Omit<
+		IXmlParseOptions,
+		'forceArray'
+	> & { forceArray?: string };
+
+	return {
+		...options,
+		forceArray: (forceArray ?? '')
+			.split(',')
+			.map((name) => name.trim())
+			.filter((name) => name !== ''),
+	};
+}
+
+/**
+ * Locale conversion settings of an item; undefined when no option is set
+ * @param language Language the session logged in with, the default locale
+ */
+function getLocaleConversion(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	language: unknown,
+): (ILocaleConversionOptions & { formatArgs: boolean }) | undefined {
+	const settings = context.getNodeParameter(
+		'localeConversion',
+		itemIndex,
+		{},
+	) as Partial<ILocaleFormat> & {
+		locale?: CaniasLocale | 'credential';
+		resultConversion?: LocaleResultConversion;
+		formatArgs?: boolean;
+		rules?: { rule?: ILocaleFieldRule[] };
+	};
+	if (Object.keys(settings).length === 0) {
+		return undefined;
+	}
+
+	const {
+		locale = 'credential',
+		resultConversion = 'rules',
+		formatArgs = false,
+		rules,
+		...overrides
+	} = settings;
+	const format = LOCALE_FORMATS[locale === 'credential' ? getLocaleFromLanguage(language) : locale];
+	return {
+		// Empty overrides keep the value of the locale
+		format: {
+			...format,
+			...Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== '')),
+		},
+		resultConversion,
+		rules: (rules?.rule ?? []).filter(({ field }) => field.trim() !== ''),
+		formatArgs,
+	};
+}
+
+/**
+ * Build the args string from the Typed Parameters args mode
+ */
+function getTypedArgs(context: IExecuteFunctions, itemIndex: number): string {
+	const { argument = [] } = context.getNodeParameter('argsTyped', itemIndex, {}) as {
+		argument?: ITypedArgument[];
+	};
+	const format = context.getNodeParameter(
+		'argsFormat',
+		itemIndex,
+		{},
+	) as Partial<IArgsFormatOptions>;
+
+	try {
+		return buildArgsString(argument, format);
+	} catch (error) {
+		if (error instanceof ArgumentValidationError) {
+			throw new NodeOperationError(context.getNode(), error.message, {
+				itemIndex,
+				description: 'Check the value and type of the argument in Args (Typed)',
+			});
+		}
+		throw error;
+	}
+}
+
+/**
+ * Catalog entry of a service from the credential's Service Catalog
+ */
+function getServiceCatalogEntry(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	credentials: ICredentialDataDecryptedObject,
+	serviceId: string,
+): IServiceCatalogEntry | undefined {
+	try {
+		return getCatalogEntry(parseServiceCatalog(credentials), serviceId);
+	} catch (error) {
+		throw new NodeOperationError(context.getNode(), error as Error, {
+			itemIndex,
+			description: 'Check the Service Catalog of the credential',
+		});
+	}
+}
+
+/**
+ * The args as the catalog schema sees them: the JSON object, typed parameters by name
+ * (coerced to the schema) or the raw string (parsed when it is JSON)
+ */
+function getArgsForValidation(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	argsMode: CallArgsMode,
+	args: string,
+	schema: ISchema,
+): unknown {
+	if (argsMode === 'jsonString') {
+		return JSON.parse(args);
+	}
+	if (argsMode === 'typed') {
+		const { argument = [] } = context.getNodeParameter('argsTyped', itemIndex, {}) as {
+			argument?: ITypedArgument[];
+		};
+		const named = Object.fromEntries(
+			argument.map(({ name, value }) => [name, value === '' ? undefined : value]),
+		);
+		return coerceToSchema(named, schema);
+	}
+	if (/^\s*[[{]/.test(args)) {
+		try {
+			return JSON.parse(args);
+		} catch {
+			// Not JSON after all, validated as a string
+		}
+	}
+	return args;
+}
+
+/**
+ * NodeOperationError listing the schema violations with their field paths
+ */
+function toSchemaValidationError(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	error: SchemaValidationError,
+): NodeOperationError {
+	const shown = error.violations.slice(0, 20);
+	const hidden = error.violations.length - shown.length;
+	return new NodeOperationError(context.getNode(), error.message, {
+		itemIndex,
+		description: [
+			...shown.map(({ path, message }) => `${path} ${message}`),
+			...(hidden > 0 ? [`... and ${hidden} more`] : []),
+		].join('\n'),
+	});
+}
+
+/**
+ * Functions configured for the agent tool operation
+ */
+function getAgentFunctions(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	credentials: ICredentialDataDecryptedObject,
+): IAgentFunction[] {
+	const { function: definitions = [] } = context.getNodeParameter(
+		'agentFunctions',
+		itemIndex,
+		{},
+	) as {
+		function?: IAgentFunctionDefinition[];
+	};
+
+	try {
+		return resolveAgentFunctions(definitions, parseServiceCatalog(credentials));
+	} catch (error) {
+		throw new NodeOperationError(context.getNode(), error as Error, {
+			itemIndex,
+			description: 'Check the Functions of the Agent Tool operation',
+		});
+	}
+}
+
+/**
+ * Validate the arguments of an agent function call and build its args string
+ */
+function getAgentArgs(context: IExecuteFunctions, itemIndex: number, fn: IAgentFunction): string {
+	let args = context.getNodeParameter('agentArguments', itemIndex, {}) as IDataObject | string;
+	if (typeof args === 'string') {
+		try {
+			args = (args.trim() === '' ? {} : JSON.parse(args)) as IDataObject;
+		} catch (error) {
+			throw new NodeOperationError(
+				context.getNode(),
+				`Function Arguments are not valid JSON: ${(error as Error).message}`,
+				{ itemIndex },
+			);
+		}
+	}
+	if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+		throw new NodeOperationError(context.getNode(), 'Function Arguments must be a JSON object', {
+			itemIndex,
+		});
+	}
+
+	try {
+		if (fn.parameters) {
+			args = coerceToSchema(args, fn.parameters) as IDataObject;
+			assertValidArgs(args, fn.parameters);
+		}
+		return buildAgentArgs(fn, args);
+	} catch (error) {
+		if (error instanceof SchemaValidationError) {
+			throw toSchemaValidationError(context, itemIndex, error);
+		}
+		if (error instanceof ArgumentValidationError) {
+			throw new NodeOperationError(context.getNode(), error.message, { itemIndex });
+		}
+		throw error;
 	}
-	// If no session ID found, something is wrong
-	throw new Error('Login failed: No session ID returned from server');
 }
 
 /**
- * Parse list services response (Axis 1.4 rpc/encoded format)
+ * Fixture store of the Record and Replay modes (execution-wide, read from the first item)
  */
-function parseListServicesResponse(res: IListIASServicesResponse): IParsedListServicesResult {
-	if (res && typeof res === 'object' && 'listIASServicesReturn' in res) {
-		return { services: res.listIASServicesReturn ?? [] };
+async function getFixtureStore(
+	context: IExecuteFunctions,
+	mode: ClientMode,
+	storage: FixtureStorage,
+	filePath: string,
+): Promise<FixtureStore | undefined> {
+	if (mode === 'live') {
+		return undefined;
+	}
+	if (storage === 'file' && !filePath.trim()) {
+		throw new NodeOperationError(context.getNode(), 'Fixture File Path is required', {
+			description: 'Set the path of the fixture file or use Fixture Storage "Workflow Static Data"',
+		});
 	}
-	// Fallback for direct array response
-	if (Array.isArray(res)) {
-		return { services: res };
+
+	const fixtures = new FixtureStore(
+		storage === 'file'
+			? fileStorage(context.helpers, filePath.trim())
+			: staticDataStorage(context.getWorkflowStaticData('node')),
+	);
+	try {
+		await fixtures.load();
+	} catch (error) {
+		throw new NodeOperationError(context.getNode(), error as Error, {
+			description: 'Could not read the recorded responses',
+		});
 	}
-	return { services: [] };
+	return fixtures;
 }
 
 /**
- * Parse call service response (Axis 1.4 rpc/encoded format)
+ * Store the responses recorded in this execution
  */
-function parseCallServiceResponse(res: ICallIASServiceResponse): any {
-	if (res && typeof res === 'object' && 'callIASServiceReturn' in res) {
-		return res.callIASServiceReturn;
+async function saveFixtures(context: IExecuteFunctions, fixtures: FixtureStore): Promise<void> {
+	try {
+		await fixtures.save();
+	} catch (error) {
+		throw new NodeOperationError(context.getNode(), error as Error, {
+			description: 'Could not store the recorded responses',
+		});
+	}
+}
+
+/**
+ * NodeOperationError for a request that was not recorded
+ */
+function toFixtureMissError(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	error: FixtureMissError,
+): NodeOperationError {
+	return new NodeOperationError(context.getNode(), error.message, {
+		itemIndex,
+		description:
+			'Replay mode only answers recorded requests. Run the node in Record mode with the same input first, or check that the args match the recording.',
+	});
+}
+
+/**
+ * Read an input binary property base64 encoded for the args
+ */
+async function getInputBinaryBase64(
+	context: IExecuteFunctions,
+	itemIndex: number,
+): Promise<string> {
+	const propertyName = context.getNodeParameter('inputBinaryPropertyName', itemIndex) as string;
+	context.helpers.assertBinaryData(itemIndex, propertyName);
+	const data = await context.helpers.getBinaryDataBuffer(itemIndex, propertyName);
+	return data.toString('base64');
+}
+
+/**
+ * Turn a decoded binary result into n8n binary data plus a JSON summary
+ */
+async function prepareBinaryResult(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	serviceId: string,
+	decoded: IDecodedBinaryResult,
+): Promise<{ result: IDataObject; binary: IBinaryKeyData }> {
+	const propertyName = context.getNodeParameter('outputBinaryPropertyName', itemIndex) as string;
+	const fileName =
+		(context.getNodeParameter('binaryFileName', itemIndex, '') as string) ||
+		`${serviceId}.${decoded.extension ?? 'bin'}`;
+	const mimeType =
+		(context.getNodeParameter('binaryMimeType', itemIndex, '') as string) ||
+		decoded.mimeType ||
+		'application/octet-stream';
+
+	const binaryData = await context.helpers.prepareBinaryData(decoded.data, fileName, mimeType);
+
+	return {
+		result: { serviceid: serviceId, fileName, mimeType, fileSize: decoded.data.length },
+		binary: { [propertyName]: binaryData },
+	};
+}
+
+/**
+ * Split a parsed callIASService result into row objects (Split Rows Into Items output mode and pages).
+ * With allowMissingTable a result without a table counts as no rows (e.g. an empty last page).
+ */
+function splitResultRows(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	result: unknown,
+	allowMissingTable = false,
+): IDataObject[] {
+	if (result === null || result === undefined || result === '') {
+		return [];
+	}
+
+	const options = context.getNodeParameter('tableOptions', itemIndex, {}) as ITableOptions;
+	const table = extractTable(result, options);
+	if (!table && allowMissingTable) {
+		return [];
+	}
+	if (!table) {
+		throw new NodeOperationError(context.getNode(), 'No table found in the service result', {
+			itemIndex,
+			description: options.rowPath
+				? `Nothing found at row path "${options.rowPath}"`
+				: 'Set "Row Path" in Table Options to point at the rows of the result',
+		});
 	}
-	// Return as-is for direct responses
-	return res;
+
+	if (!options.includeMetadata) {
+		return table.rows;
+	}
+
+	const metadataKey = options.metadataKey || '_table';
+	return table.rows.map((row) => ({ ...row, [metadataKey]: table.metadata }));
 }
 
 /**
- * Parse logout response
+ * Pagination settings of a callIASService item
  */
-function parseLogoutResponse(res: any): IParsedLogoutResult {
+function getPaginationOptions(context: IExecuteFunctions, itemIndex: number): IPaginationOptions {
+	const injection = context.getNodeParameter(
+		'pageInjection',
+		itemIndex,
+		'jsonPath',
+	) as PageInjection;
+	const stopCondition = context.getNodeParameter(
+		'paginationStop',
+		itemIndex,
+		'partialPage',
+	) as PaginationStop;
+
 	return {
-		success: true,
-		response: res ?? null,
+		parameter: context.getNodeParameter('pageParameter', itemIndex, 'page') as PageParameter,
+		injection,
+		jsonPath:
+			injection === 'jsonPath'
+				? (context.getNodeParameter('pageJsonPath', itemIndex) as string)
+				: undefined,
+		placeholder:
+			injection === 'placeholder'
+				? (context.getNodeParameter('pagePlaceholder', itemIndex) as string)
+				: undefined,
+		pageSize: context.getNodeParameter('pageSize', itemIndex, 100) as number,
+		stopCondition,
+		totalCountPath:
+			stopCondition === 'totalCount'
+				? (context.getNodeParameter('totalCountPath', itemIndex) as string)
+				: undefined,
+		...(context.getNodeParameter(
+			'paginationOptions',
+			itemIndex,
+			{},
+		) as Partial<IPaginationOptions>),
 	};
 }
 
@@ -91,170 +741,1044 @@ export class CaniasWebService implements INodeType {
 			{
 				name: 'caniasWebServiceApi',
 				required: true,
+				testedBy: 'caniasWebServiceApiTest',
 			},
 		],
 		usableAsTool: true,
 		properties: [
+			{
+				displayName: 'Environment Name or ID',
+				name: 'environment',
+				type: 'options',
+				typeOptions: { loadOptionsMethod: 'getEnvironments' },
+				default: '',
+				description:
+					'Environment profile of the credential used by all operations. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
 			{
 				displayName: 'Endpoint Override',
 				name: 'endpoint',
 				type: 'string',
 				default: '',
 				description:
-					'Optional. Override the service endpoint URL if different from the WSDL binding address',
+					'Optional. Override the service endpoint URL if different from the WSDL binding address (also used with the bundled WSDL)',
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				options: [
+					{
+						name: 'Agent Tool',
+						value: 'agentTool',
+						description: 'Let an AI agent call the configured IAS services as functions',
+					},
+					{ name: 'Call IAS Service', value: 'callIASService', description: 'Call a specific IAS service method' },
+					{ name: 'List IAS Services', value: 'listIASServices', description: 'List available IAS services' },
+					{ name: 'Login', value: 'login', description: 'Obtain a session ID' },
+					{ name: 'Logout', value: 'logout', description: 'Terminate the session' },
+				],
+				default: 'login',
+				required: true,
+			},
+
+			// login params - optional overrides (useful when multiple DBs/servers exist)
+			...loginOverrideProperties({ show: { operation: ['login'] } }),
+
+			// session handling for listIASServices / callIASService
+			{
+				displayName: 'Session Handling',
+				name: 'sessionHandling',
+				type: 'options',
+				options: [
+					{
+						name: 'Manual',
+						value: 'manual',
+						description: 'Use a session ID from a previous login operation',
+					},
+					{
+						name: 'Automatic',
+						value: 'automatic',
+						description:
+							'Login with the credential, reuse one session for all items and always logout afterwards',
+					},
+					{
+						name: 'Pooled (Reuse Across Executions)',
+						value: 'pooled',
+						description:
+							'Borrow a logged-in session from a process-wide pool shared by all executions using the same credential',
+					},
+				],
+				default: 'manual',
+				displayOptions: { show: { operation: ['listIASServices', 'callIASService'] } },
+			},
+			...loginOverrideProperties({
+				show: {
+					operation: ['listIASServices', 'callIASService'],
+					sessionHandling: ['automatic', 'pooled'],
+				},
+			}),
+			{
+				displayName: 'Session Pool',
+				name: 'sessionPool',
+				type: 'collection',
+				default: {},
+				placeholder: 'Add Pool Option',
+				displayOptions: {
+					show: { operation: ['listIASServices', 'callIASService'], sessionHandling: ['pooled'] },
+				},
+				options: [
+					{
+						displayName: 'Idle Timeout (S)',
+						name: 'idleTimeout',
+						type: 'number',
+						default: 300,
+						description:
+							'Seconds a pooled session may stay unused before it is logged out (checked every 30 seconds). Keep it below the CANIAS session timeout.',
+					},
+					{
+						displayName: 'Max Sessions',
+						name: 'maxSessions',
+						type: 'number',
+						default: 2,
+						typeOptions: { minValue: 1 },
+						description: 'Maximum number of sessions kept open per credential',
+					},
+					{
+						displayName: 'Acquire Timeout (S)',
+						name: 'acquireTimeout',
+						type: 'number',
+						default: 60,
+						description: 'Seconds to wait for a free session when all pooled sessions are in use',
+					},
+				],
+			},
+
+			// listIASServices params
+			{
+				displayName: 'Session ID',
+				name: 'listSessionId',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: { show: { operation: ['listIASServices'], sessionHandling: ['manual'] } },
+			},
+
+			{
+				displayName: 'Output Mode',
+				name: 'listOutputMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Single Item',
+						value: 'single',
+						description: 'Return all services as one item: { services: [...] }',
+					},
+					{
+						name: 'One Item per Service',
+						value: 'perService',
+						description:
+							'Return one item per service: { serviceid }, ready to feed a Call IAS Service node',
+					},
+				],
+				default: 'single',
+				displayOptions: { show: { operation: ['listIASServices'] } },
+			},
+			{
+				displayName: 'Options',
+				name: 'listOptions',
+				type: 'collection',
+				default: {},
+				placeholder: 'Add Option',
+				displayOptions: { show: { operation: ['listIASServices'] } },
+				options: [
+					{
+						displayName: 'Case Sensitive',
+						name: 'caseSensitive',
+						type: 'boolean',
+						default: false,
+						description: 'Whether the filter distinguishes upper and lower case',
+					},
+					{
+						displayName: 'Deduplicate',
+						name: 'deduplicate',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to remove duplicate service names',
+					},
+					{
+						displayName: 'Filter',
+						name: 'filter',
+						type: 'string',
+						default: '',
+						placeholder: 'SALES*',
+						description: 'Only return services whose name matches this pattern',
+					},
+					{
+						displayName: 'Filter Mode',
+						name: 'filterMode',
+						type: 'options',
+						options: [
+							{ name: 'Contains', value: 'contains' },
+							{
+								name: 'Wildcard',
+								value: 'wildcard',
+								description: 'Use * for any characters and ? for a single character',
+							},
+							{ name: 'Regular Expression', value: 'regex' },
+						],
+						default: 'contains',
+					},
+					{
+						displayName: 'Sort',
+						name: 'sort',
+						type: 'options',
+						options: [
+							{ name: 'None', value: 'none' },
+							{ name: 'Ascending', value: 'asc' },
+							{ name: 'Descending', value: 'desc' },
+						],
+						default: 'none',
+					},
+				],
+			},
+
+			// callIASService params
+			{
+				displayName: 'Session ID',
+				name: 'sessionid',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: { show: { operation: ['callIASService'], sessionHandling: ['manual'] } },
+			},
+			{
+				displayName: 'Service ID',
+				name: 'serviceid',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				displayOptions: { show: { operation: ['callIASService'] } },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a service...',
+						typeOptions: {
+							searchListMethod: 'searchServices',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'e.g. SALESORDERLIST',
+					},
+				],
+			},
+			{
+				displayName: 'Args Mode',
+				name: 'argsMode',
+				type: 'options',
+				options: [
+					{ name: 'Raw String', value: 'rawString' },
+					{ name: 'JSON Object (stringified)', value: 'jsonString' },
+					{ name: 'Typed Parameters', value: 'typed' },
+				],
+				default: 'rawString',
+				displayOptions: { show: { operation: ['callIASService'] } },
+				description:
+					'How to provide the "args" parameter. Select JSON to build a JSON object that will be stringified, or Typed Parameters to build it from validated named values.',
+			},
+			{
+				displayName: 'Args (String)',
+				name: 'argsRaw',
+				type: 'string',
+				default: '',
+				displayOptions: { show: { operation: ['callIASService'], argsMode: ['rawString'] } },
+				description: 'The args string passed to the service',
+			},
+			{
+				displayName: 'Args (JSON)',
+				name: 'argsJson',
+				type: 'json',
+				default: {},
+				displayOptions: { show: { operation: ['callIASService'], argsMode: ['jsonString'] } },
+				description: 'A JSON object that will be JSON.stringify-ed and sent as the "args" string',
+			},
+			{
+				displayName: 'Args (Typed)',
+				name: 'argsTyped',
+				type: 'fixedCollection',
+				typeOptions: { multipleValues: true, sortable: true },
+				placeholder: 'Add Argument',
+				default: {},
+				displayOptions: { show: { operation: ['callIASService'], argsMode: ['typed'] } },
+				description: 'Arguments in the order the service expects them',
+				options: [
+					{
+						displayName: 'Argument',
+						name: 'argument',
+						values: [
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g. CUSTOMER',
+								description: 'Argument name, sent as NAME=value in named format',
+							},
+							{
+								displayName: 'Required',
+								name: 'required',
+								type: 'boolean',
+								default: false,
+								description:
+									'Whether an empty value fails the item instead of sending an empty argument',
+							},
+							{
+								displayName: 'Type',
+								name: 'type',
+								type: 'options',
+								options: [
+									{
+										name: 'Boolean',
+										value: 'boolean',
+										description: 'True/false, 1/0, E/H or Evet/Hayır',
+									},
+									{ name: 'Date', value: 'date', description: 'YYYY-MM-DD or DD.MM.YYYY' },
+									{ name: 'Decimal', value: 'decimal' },
+									{ name: 'Integer', value: 'integer' },
+									{
+										name: 'List',
+										value: 'list',
+										description: 'JSON array or comma-separated values',
+									},
+									{ name: 'String', value: 'string' },
+								],
+								default: 'string',
+							},
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Args Format',
+				name: 'argsFormat',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: { show: { operation: ['callIASService'], argsMode: ['typed'] } },
+				options: [
+					{
+						displayName: 'Boolean False Value',
+						name: 'booleanFalse',
+						type: 'string',
+						default: '0',
+					},
+					{
+						displayName: 'Boolean True Value',
+						name: 'booleanTrue',
+						type: 'string',
+						default: '1',
+					},
+					{
+						displayName: 'Date Format',
+						name: 'dateFormat',
+						type: 'string',
+						default: 'dd.MM.yyyy',
+						description: 'Format of date arguments, using the tokens yyyy, MM, dd, HH, mm and ss',
+					},
+					{
+						displayName: 'Decimal Separator',
+						name: 'decimalSeparator',
+						type: 'options',
+						options: [
+							{ name: 'Comma (,)', value: ',' },
+							{ name: 'Dot (.)', value: '.' },
+						],
+						default: '.',
+					},
+					{
+						displayName: 'Delimiter',
+						name: 'delimiter',
+						type: 'string',
+						default: ',',
+						description:
+							'Separator between arguments. Occurrences inside values are escaped with a backslash.',
+					},
+					{
+						displayName: 'Format',
+						name: 'format',
+						type: 'options',
+						options: [
+							{ name: 'Named (NAME=value)', value: 'named' },
+							{ name: 'Positional', value: 'positional' },
+						],
+						default: 'positional',
+					},
+					{
+						displayName: 'List Delimiter',
+						name: 'listDelimiter',
+						type: 'string',
+						default: ';',
+						description: 'Separator between the values of a list argument',
+					},
+					{
+						displayName: 'Quote Strings',
+						name: 'quoteStrings',
+						type: 'boolean',
+						default: false,
+						description: "Whether string arguments are wrapped in single quotes ('value')",
+					},
+					{
+						displayName: 'Turkish Characters',
+						name: 'turkishCharacters',
+						type: 'options',
+						options: [
+							{
+								name: 'Escape',
+								value: 'escape',
+								description: 'Send non-ASCII characters as \\uXXXX escapes',
+							},
+							{ name: 'Keep', value: 'keep', description: 'Send as-is (UTF-8)' },
+							{
+								name: 'Transliterate',
+								value: 'transliterate',
+								description: 'Replace ç, ğ, ı, İ, ö, ş, ü with their ASCII letters',
+							},
+						],
+						default: 'keep',
+					},
+				],
+			},
+			{
+				displayName: 'Send Binary Data',
+				name: 'sendBinary',
+				type: 'boolean',
+				default: false,
+				displayOptions: { show: { operation: ['callIASService'] } },
+				description:
+					'Whether to send a binary property of the input item (e.g. an attachment) base64 encoded in the args',
+			},
+			{
+				displayName: 'Input Binary Field',
+				name: 'inputBinaryPropertyName',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: { show: { operation: ['callIASService'], sendBinary: [true] } },
+				description: 'Name of the input binary property to send',
+			},
+			{
+				displayName: 'Binary Injection',
+				name: 'binaryInjection',
+				type: 'options',
+				options: [
+					{
+						name: 'Replace Placeholder',
+						value: 'placeholder',
+						description: 'Replace a placeholder text in the args with the base64 content',
+					},
+					{
+						name: 'JSON Property',
+						value: 'jsonProperty',
+						description: 'Set the base64 content as a property of the JSON args',
+					},
+				],
+				default: 'placeholder',
+				displayOptions: { show: { operation: ['callIASService'], sendBinary: [true] } },
+			},
+			{
+				displayName: 'Placeholder',
+				name: 'binaryPlaceholder',
+				type: 'string',
+				default: '%BINARY%',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['callIASService'],
+						sendBinary: [true],
+						binaryInjection: ['placeholder'],
+					},
+				},
+				description: 'Text in the args that is replaced with the base64 content',
+			},
+			{
+				displayName: 'JSON Property',
+				name: 'binaryJsonProperty',
+				type: 'string',
+				default: 'content',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['callIASService'],
+						sendBinary: [true],
+						binaryInjection: ['jsonProperty'],
+					},
+				},
+				description: 'Property of the JSON args that receives the base64 content',
+			},
+			{
+				displayName: 'Return Type',
+				name: 'returntype',
+				type: 'string',
+				default: 'json',
+				required: true,
+				displayOptions: { show: { operation: ['callIASService'] } },
+				description: 'Desired return type as expected by the service (e.g. json, xml, string)',
+			},
+			{
+				displayName: 'Permanent',
+				name: 'permanent',
+				type: 'boolean',
+				default: false,
+				displayOptions: { show: { operation: ['callIASService'] } },
+				description: 'Whether the call should be treated as permanent by the service',
+			},
+			{
+				displayName: 'Schema Catalog',
+				name: 'catalogValidation',
+				type: 'options',
+				options: [
+					{
+						name: 'Validate Args and Result',
+						value: 'full',
+						description:
+							'Validate the args before the call, coerce the parsed result to the schema and validate it. With Output Parsing "None" the result is parsed as with "Auto" first.',
+					},
+					{ name: 'Validate Args Only', value: 'args' },
+					{ name: 'Off', value: 'off' },
+				],
+				default: 'full',
+				displayOptions: { show: { operation: ['callIASService'] } },
+				description:
+					"How the service's entry in the Service Catalog of the credential is used. Services without an entry are not checked.",
+			},
+			{
+				displayName: 'Output Parsing',
+				name: 'outputParsing',
+				type: 'options',
+				options: [
+					{
+						name: 'Auto',
+						value: 'auto',
+						description:
+							'Parse according to the return type (JSON or XML), otherwise detect JSON or XML payloads',
+					},
+					{ name: 'JSON', value: 'json', description: 'Parse the result as JSON' },
+					{ name: 'XML', value: 'xml', description: 'Convert the XML result to JSON' },
+					{ name: 'None', value: 'none', description: 'Return the result string as-is' },
+				],
+				default: 'none',
+				displayOptions: { show: { operation: ['callIASService'] } },
+				description: 'How to parse the callIASServiceReturn payload',
+			},
+			{
+				displayName: 'XML Options',
+				name: 'xmlOptions',
+				type: 'collection',
+				default: {},
+				placeholder: 'Add XML Option',
+				displayOptions: { show: { operation: ['callIASService'], outputParsing: ['auto', 'xml'] } },
+				options: [
+					{
+						displayName: 'Arrays',
+						name: 'arrayMode',
+						type: 'options',
+						options: [
+							{
+								name: 'Only Repeated Elements',
+								value: 'auto',
+								description: 'Elements become arrays only when they occur more than once',
+							},
+							{
+								name: 'Always',
+								value: 'always',
+								description: 'Every child element becomes an array',
+							},
+						],
+						default: 'auto',
+					},
+					{
+						displayName: 'Attribute Key',
+						name: 'attributeKey',
+						type: 'string',
+						default: '$',
+						description: 'Key holding the attributes when attributes are grouped',
+					},
+					{
+						displayName: 'Attribute Prefix',
+						name: 'attributePrefix',
+						type: 'string',
+						default: '@',
+						description: 'Prefix for attribute keys when attributes are merged',
+					},
+					{
+						displayName: 'Attributes',
+						name: 'attributeMode',
+						type: 'options',
+						options: [
+							{
+								name: 'Merge With Prefix',
+								value: 'merge',
+								description: 'Attributes become keys with the attribute prefix',
+							},
+							{
+								name: 'Group Under Key',
+								value: 'group',
+								description: 'Attributes are nested under the attribute key',
+							},
+							{ name: 'Ignore', value: 'ignore', description: 'Attributes are dropped' },
+						],
+						default: 'merge',
+					},
+					{
+						displayName: 'Force Array Elements',
+						name: 'forceArray',
+						type: 'string',
+						default: '',
+						placeholder: 'ROW, ITEM',
+						description:
+							'Comma-separated element names that are always arrays, even when they occur once',
+					},
+					{
+						displayName: 'Text Key',
+						name: 'textKey',
+						type: 'string',
+						default: '#text',
+						description:
+							'Key for the text content of elements that also have attributes or children',
+					},
+				],
+			},
+			{
+				displayName: 'Locale Conversion',
+				name: 'localeConversion',
+				type: 'collection',
+				default: {},
+				placeholder: 'Add Option',
+				displayOptions: { show: { operation: ['callIASService'] } },
+				description:
+					'Convert locale formatted values such as "1.234,56", "31.12.2025" and, with field rules, E/H flags in the result to numbers, ISO dates and booleans, and format JSON args for the locale',
+				options: [
+					{
+						displayName: 'Boolean False Value',
+						name: 'booleanFalse',
+						type: 'string',
+						default: '',
+						placeholder: 'H',
+						description: 'Flag for false. Taken from the locale when empty.',
+					},
+					{
+						displayName: 'Boolean True Value',
+						name: 'booleanTrue',
+						type: 'string',
+						default: '',
+						placeholder: 'E',
+						description: 'Flag for true. Taken from the locale when empty.',
+					},
+					{
+						displayName: 'Date Format',
+						name: 'dateFormat',
+						type: 'string',
+						default: '',
+						placeholder: 'dd.MM.yyyy',
+						description:
+							'Date format with yyyy, MM and dd tokens; a time (HH:mm:ss) may follow. Taken from the locale when empty.',
+					},
+					{
+						displayName: 'Decimal Separator',
+						name: 'decimalSeparator',
+						type: 'string',
+						default: '',
+						placeholder: ',',
+						description: 'Taken from the locale when empty',
+					},
+					{
+						displayName: 'Field Rules',
+						name: 'rules',
+						type: 'fixedCollection',
+						typeOptions: { multipleValues: true },
+						default: {},
+						placeholder: 'Add Rule',
+						description:
+							'Type of fields by name (case-insensitive, at any depth). Rules take precedence over auto-detection.',
+						options: [
+							{
+								displayName: 'Rule',
+								name: 'rule',
+								values: [
+									{
+										displayName: 'Field',
+										name: 'field',
+										type: 'string',
+										default: '',
+										placeholder: 'AMOUNT',
+									},
+									{
+										displayName: 'Type',
+										name: 'type',
+										type: 'options',
+										options: [
+											{ name: 'Boolean', value: 'boolean' },
+											{ name: 'Date', value: 'date' },
+											{ name: 'Date and Time', value: 'dateTime' },
+											{ name: 'Number', value: 'number' },
+											{ name: 'Text (Keep As Is)', value: 'string' },
+										],
+										default: 'number',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Format Args',
+						name: 'formatArgs',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to write decimals, booleans and ISO dates of JSON args in the locale format before the call (e.g. 1234.5 → "1234,5", true → "E", 2025-12-31 → "31.12.2025")',
+					},
+					{
+						displayName: 'Locale',
+						name: 'locale',
+						type: 'options',
+						options: [
+							{
+								name: 'English (1,234.56 · 12/31/2025 · Y/N)',
+								value: 'en',
+							},
+							{
+								name: 'From Login Language',
+								value: 'credential',
+								description:
+									'Language the session logged in with (Language Override or credential). T: Turkish, D: German, E: English; Turkish for other languages.',
+							},
+							{
+								name: 'German (1.234,56 · 31.12.2025 · J/N)',
+								value: 'de',
+							},
+							{
+								name: 'Turkish (1.234,56 · 31.12.2025 · E/H)',
+								value: 'tr',
+							},
+						],
+						default: 'credential',
+					},
+					{
+						displayName: 'Result Conversion',
+						name: 'resultConversion',
+						type: 'options',
+						options: [
+							{
+								name: 'Auto-Detect',
+								value: 'auto',
+								description:
+									'Convert values that look like locale dates or decimals (with decimal separator or thousands grouping); flags need a field rule, field rules take precedence',
+							},
+							{
+								name: 'Field Rules Only',
+								value: 'rules',
+								description: 'Convert only the fields listed in Field Rules',
+							},
+							{
+								name: 'Off',
+								value: 'off',
+								description: 'Leave the result as it is',
+							},
+						],
+						default: 'rules',
+					},
+					{
+						displayName: 'Thousands Separator',
+						name: 'thousandsSeparator',
+						type: 'string',
+						default: '',
+						placeholder: '.',
+						description: 'Taken from the locale when empty',
+					},
+				],
+			},
+			{
+				displayName: 'Output Mode',
+				name: 'outputMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Single Item',
+						value: 'single',
+						description: 'Return the whole result as one item',
+					},
+					{
+						name: 'Split Rows Into Items',
+						value: 'splitRows',
+						description: 'Detect a table (XML rows or JSON row array) and return one item per row',
+					},
+				],
+				default: 'single',
+				displayOptions: { show: { operation: ['callIASService'] } },
+			},
+			{
+				displayName: 'Table Options',
+				name: 'tableOptions',
+				type: 'collection',
+				default: {},
+				placeholder: 'Add Table Option',
+				displayOptions: { show: { operation: ['callIASService'] } },
+				description: 'How rows are found when they are split into items or collected from pages',
+				options: [
+					{
+						displayName: 'Row Path',
+						name: 'rowPath',
+						type: 'string',
+						default: '',
+						placeholder: 'RESPONSE.TABLE',
+						description:
+							'Dot path to the table or row array in the parsed result. Detected automatically when empty.',
+					},
+					{
+						displayName: 'Include Table Metadata',
+						name: 'includeMetadata',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to add the table name, columns and other table attributes to every row item',
+					},
+					{
+						displayName: 'Metadata Key',
+						name: 'metadataKey',
+						type: 'string',
+						default: '_table',
+						description: 'Key holding the table metadata on each row item',
+					},
+				],
+			},
+			{
+				displayName: 'Paginate',
+				name: 'paginate',
+				type: 'boolean',
+				default: false,
+				displayOptions: { show: { operation: ['callIASService'] } },
+				description:
+					'Whether to call the service repeatedly with the next page number or offset in the args and collect the rows of all pages. All pages use the same session.',
 			},
 			{
-				displayName: 'Operation',
-				name: 'operation',
+				displayName: 'Page Parameter',
+				name: 'pageParameter',
 				type: 'options',
 				options: [
-					{ name: 'Login', value: 'login', description: 'Obtain a session ID' },
-					{ name: 'List IAS Services', value: 'listIASServices', description: 'List available IAS services' },
-					{ name: 'Call IAS Service', value: 'callIASService', description: 'Call a specific IAS service method' },
-					{ name: 'Logout', value: 'logout', description: 'Terminate the session' },
+					{
+						name: 'Offset',
+						value: 'offset',
+						description: 'Number of rows to skip: 0, page size, 2 × page size, …',
+					},
+					{
+						name: 'Page Number',
+						value: 'page',
+						description: 'Page number starting at First Page Number',
+					},
 				],
-				default: 'login',
-				required: true,
-			},
-
-			// login params - optional overrides (useful when multiple DBs/servers exist)
-			{
-				displayName: 'Client Override',
-				name: 'clientOverride',
-				type: 'string',
-				default: '',
-				placeholder: 'Leave empty to use credential default',
-				displayOptions: { show: { operation: ['login'] } },
-				description: 'Optional. Override the Client number from credentials',
-			},
-			{
-				displayName: 'Language Override',
-				name: 'languageOverride',
-				type: 'string',
-				default: '',
-				placeholder: 'Leave empty to use credential default',
-				displayOptions: { show: { operation: ['login'] } },
-				description: 'Optional. Override the Language from credentials',
-			},
-			{
-				displayName: 'DB Name Override',
-				name: 'dbNameOverride',
-				type: 'string',
-				default: '',
-				placeholder: 'Leave empty to use credential default',
-				displayOptions: { show: { operation: ['login'] } },
-				description: 'Optional. Override the DB Name from credentials (useful with multiple databases)',
+				default: 'page',
+				displayOptions: { show: { operation: ['callIASService'], paginate: [true] } },
+				description: 'Value written into the args of each call',
 			},
 			{
-				displayName: 'DB Server Override',
-				name: 'dbServerOverride',
-				type: 'string',
-				default: '',
-				placeholder: 'Leave empty to use credential default',
-				displayOptions: { show: { operation: ['login'] } },
-				description: 'Optional. Override the DB Server from credentials',
+				displayName: 'Page Injection',
+				name: 'pageInjection',
+				type: 'options',
+				options: [
+					{
+						name: 'JSON Path',
+						value: 'jsonPath',
+						description: 'Set a property of JSON args',
+					},
+					{
+						name: 'Placeholder',
+						value: 'placeholder',
+						description: 'Replace a text in the args (any args mode)',
+					},
+				],
+				default: 'jsonPath',
+				displayOptions: { show: { operation: ['callIASService'], paginate: [true] } },
+				description: 'How the page number or offset is put into the args',
 			},
 			{
-				displayName: 'App Server Override',
-				name: 'appServerOverride',
+				displayName: 'Page JSON Path',
+				name: 'pageJsonPath',
 				type: 'string',
-				default: '',
-				placeholder: 'Leave empty to use credential default',
-				displayOptions: { show: { operation: ['login'] } },
-				description: 'Optional. Override the App Server from credentials (useful with multiple web services)',
+				default: 'page',
+				required: true,
+				placeholder: 'paging.offset',
+				displayOptions: {
+					show: { operation: ['callIASService'], paginate: [true], pageInjection: ['jsonPath'] },
+				},
+				description: 'Dot path of the property that receives the page number or offset',
 			},
 			{
-				displayName: 'Username Override',
-				name: 'usernameOverride',
+				displayName: 'Page Placeholder',
+				name: 'pagePlaceholder',
 				type: 'string',
-				default: '',
-				placeholder: 'Leave empty to use credential default',
-				displayOptions: { show: { operation: ['login'] } },
-				description: 'Optional. Override the Username from credentials',
+				default: '%PAGE%',
+				required: true,
+				displayOptions: {
+					show: { operation: ['callIASService'], paginate: [true], pageInjection: ['placeholder'] },
+				},
+				description: 'Text in the args that is replaced with the page number or offset',
 			},
 			{
-				displayName: 'Password Override',
-				name: 'passwordOverride',
-				type: 'string',
-				typeOptions: { password: true },
-				default: '',
-				placeholder: 'Leave empty to use credential default',
-				displayOptions: { show: { operation: ['login'] } },
-				description: 'Optional. Override the Password from credentials',
+				displayName: 'Page Size',
+				name: 'pageSize',
+				type: 'number',
+				default: 100,
+				typeOptions: { minValue: 1 },
+				displayOptions: { show: { operation: ['callIASService'], paginate: [true] } },
+				description: 'Rows per page as requested from the service',
 			},
-
-			// listIASServices params
 			{
-				displayName: 'Session ID',
-				name: 'listSessionId',
-				type: 'string',
-				default: '',
-				required: true,
-				displayOptions: { show: { operation: ['listIASServices'] } },
+				displayName: 'Stop When',
+				name: 'paginationStop',
+				type: 'options',
+				options: [
+					{
+						name: 'Page Is Empty',
+						value: 'emptyPage',
+						description: 'Stop at the first page without rows',
+					},
+					{
+						name: 'Page Has Fewer Rows Than Page Size',
+						value: 'partialPage',
+						description: 'Stop at the first page that is not full (or empty)',
+					},
+					{
+						name: 'Total Count Is Reached',
+						value: 'totalCount',
+						description: 'Stop when the rows reach a total count returned with the first page',
+					},
+				],
+				default: 'partialPage',
+				displayOptions: { show: { operation: ['callIASService'], paginate: [true] } },
 			},
-
-			// callIASService params
 			{
-				displayName: 'Session ID',
-				name: 'sessionid',
+				displayName: 'Total Count Path',
+				name: 'totalCountPath',
 				type: 'string',
 				default: '',
 				required: true,
-				displayOptions: { show: { operation: ['callIASService'] } },
+				placeholder: 'RESPONSE.TOTAL',
+				displayOptions: {
+					show: { operation: ['callIASService'], paginate: [true], paginationStop: ['totalCount'] },
+				},
+				description: 'Dot path of the total row count in the parsed result of the first page',
 			},
 			{
-				displayName: 'Service ID',
-				name: 'serviceid',
-				type: 'string',
-				default: '',
-				required: true,
-				displayOptions: { show: { operation: ['callIASService'] } },
+				displayName: 'Pagination Options',
+				name: 'paginationOptions',
+				type: 'collection',
+				default: {},
+				placeholder: 'Add Option',
+				displayOptions: { show: { operation: ['callIASService'], paginate: [true] } },
+				options: [
+					{
+						displayName: 'First Page Number',
+						name: 'firstPage',
+						type: 'number',
+						default: 1,
+						description: 'Page number of the first call (Page Parameter "Page Number")',
+					},
+					{
+						displayName: 'Max Pages',
+						name: 'maxPages',
+						type: 'number',
+						default: 100,
+						typeOptions: { minValue: 1 },
+						description:
+							'Safety limit on the number of calls. The node fails when the last page is not reached within it.',
+					},
+					{
+						displayName: 'Page Size JSON Path',
+						name: 'pageSizePath',
+						type: 'string',
+						default: '',
+						placeholder: 'paging.limit',
+						description: 'Dot path of a property in JSON args that receives the page size',
+					},
+					{
+						displayName: 'Page Size Placeholder',
+						name: 'pageSizePlaceholder',
+						type: 'string',
+						default: '',
+						placeholder: '%PAGE_SIZE%',
+						description: 'Text in the args that is replaced with the page size',
+					},
+				],
 			},
+
 			{
-				displayName: 'Args Mode',
-				name: 'argsMode',
+				displayName: 'Binary Result',
+				name: 'binaryOutput',
 				type: 'options',
 				options: [
-					{ name: 'Raw String', value: 'rawString' },
-					{ name: 'JSON Object (stringified)', value: 'jsonString' },
+					{ name: 'None', value: 'none', description: 'Return the result as JSON' },
+					{
+						name: 'Detect Automatically',
+						value: 'auto',
+						description:
+							'Write base64 documents of a known type (PDF, Excel, images, ...) to binary output',
+					},
+					{
+						name: 'Base64',
+						value: 'base64',
+						description: 'The result is always base64 and is written to binary output',
+					},
 				],
-				default: 'rawString',
+				default: 'none',
 				displayOptions: { show: { operation: ['callIASService'] } },
 				description:
-					'How to provide the "args" parameter. Select JSON to build a JSON object that will be stringified.',
+					'Whether to return generated documents as n8n binary data. Takes precedence over Output Parsing and Output Mode.',
 			},
 			{
-				displayName: 'Args (String)',
-				name: 'argsRaw',
+				displayName: 'Output Binary Field',
+				name: 'outputBinaryPropertyName',
 				type: 'string',
-				default: '',
-				displayOptions: { show: { operation: ['callIASService'], argsMode: ['rawString'] } },
-				description: 'The args string passed to the service',
-			},
-			{
-				displayName: 'Args (JSON)',
-				name: 'argsJson',
-				type: 'json',
-				default: {},
-				displayOptions: { show: { operation: ['callIASService'], argsMode: ['jsonString'] } },
-				description: 'A JSON object that will be JSON.stringify-ed and sent as the "args" string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: { operation: ['callIASService'], binaryOutput: ['auto', 'base64'] },
+				},
+				description: 'Name of the binary property to write the result to',
 			},
 			{
-				displayName: 'Return Type',
-				name: 'returntype',
+				displayName: 'File Name',
+				name: 'binaryFileName',
 				type: 'string',
-				default: 'json',
-				required: true,
-				displayOptions: { show: { operation: ['callIASService'] } },
-				description: 'Desired return type as expected by the service (e.g. json, xml, string)',
+				default: '',
+				placeholder: 'e.g. report.pdf',
+				displayOptions: {
+					show: { operation: ['callIASService'], binaryOutput: ['auto', 'base64'] },
+				},
+				description:
+					'File name of the binary result. Defaults to the service ID with the extension of the detected file type.',
 			},
 			{
-				displayName: 'Permanent',
-				name: 'permanent',
-				type: 'boolean',
-				default: false,
-				displayOptions: { show: { operation: ['callIASService'] } },
-				description: 'Whether the call should be treated as permanent by the service',
+				displayName: 'MIME Type',
+				name: 'binaryMimeType',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. application/pdf',
+				displayOptions: {
+					show: { operation: ['callIASService'], binaryOutput: ['auto', 'base64'] },
+				},
+				description: 'MIME type of the binary result. Detected from the content when empty.',
 			},
 
 			// logout params
@@ -267,6 +1791,136 @@ export class CaniasWebService implements INodeType {
 				displayOptions: { show: { operation: ['logout'] } },
 			},
 
+			// agentTool params - the function and its arguments are meant to be defined by the model
+			{
+				displayName: 'Function',
+				name: 'agentFunction',
+				type: 'string',
+				default: '',
+				placeholder: LIST_FUNCTIONS,
+				displayOptions: { show: { operation: ['agentTool'] } },
+				description: `Function to call; let the model define this parameter. Empty or "${LIST_FUNCTIONS}" returns the available functions with their descriptions and parameter schemas.`,
+			},
+			{
+				displayName: 'Function Arguments',
+				name: 'agentArguments',
+				type: 'json',
+				default: '{}',
+				displayOptions: { show: { operation: ['agentTool'] } },
+				description:
+					"Arguments of the function call as a JSON object; let the model define this parameter. Checked against the function's parameter schema.",
+			},
+			{
+				displayName: 'Functions',
+				name: 'agentFunctions',
+				type: 'fixedCollection',
+				typeOptions: { multipleValues: true, sortable: true },
+				placeholder: 'Add Function',
+				default: {},
+				displayOptions: { show: { operation: ['agentTool'] } },
+				description:
+					'IAS services the agent may call. Calls are never permanent and use an internal session that is logged out afterwards.',
+				options: [
+					{
+						displayName: 'Function',
+						name: 'function',
+						values: [
+							{
+								displayName: 'Args Encoding',
+								name: 'argsEncoding',
+								type: 'options',
+								options: [
+									{
+										name: 'JSON Object',
+										value: 'json',
+										description: 'Send the arguments as a JSON object',
+									},
+									{
+										name: 'Positional',
+										value: 'positional',
+										description:
+											'Send the values comma-separated in the order of the parameter schema properties',
+									},
+									{
+										name: 'Named (NAME=value)',
+										value: 'named',
+										description:
+											'Send NAME=value pairs in the order of the parameter schema properties',
+									},
+								],
+								default: 'json',
+							},
+							{
+								displayName: 'Description',
+								name: 'description',
+								type: 'string',
+								typeOptions: { rows: 3 },
+								default: '',
+								placeholder: 'e.g. Lists the open sales orders of a customer',
+								description:
+									'What the function does and when to use it, for the model. Taken from the Service Catalog when empty.',
+							},
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g. list_open_orders',
+								description:
+									'Function name seen by the model. Defaults to the lower-case service ID.',
+							},
+							{
+								displayName: 'Parameters Schema',
+								name: 'parameters',
+								type: 'json',
+								default: '',
+								description:
+									'JSON Schema (type object) of the arguments. Taken from the Service Catalog args schema when empty.',
+							},
+							{
+								displayName: 'Return Type',
+								name: 'returntype',
+								type: 'string',
+								default: 'json',
+							},
+							{
+								displayName: 'Service ID',
+								name: 'serviceid',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g. SALESORDERLIST',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Result Limits',
+				name: 'agentResultLimits',
+				type: 'collection',
+				default: {},
+				placeholder: 'Add Limit',
+				displayOptions: { show: { operation: ['agentTool'] } },
+				options: [
+					{
+						displayName: 'Max Characters',
+						name: 'maxCharacters',
+						type: 'number',
+						default: 10000,
+						typeOptions: { minValue: 100 },
+						description: 'Results longer than this (as JSON text) are cut off',
+					},
+					{
+						displayName: 'Max Rows',
+						name: 'maxRows',
+						type: 'number',
+						default: 50,
+						typeOptions: { minValue: 1 },
+						description: 'Table results are cut to this number of rows',
+					},
+				],
+			},
+
 			// Other options
 			{
 				displayName: 'Return Full Response',
@@ -284,11 +1938,46 @@ export class CaniasWebService implements INodeType {
 				placeholder: 'Advanced Options',
 				options: [
 					{
-						displayName: 'Timeout (ms)',
-						name: 'timeout',
+						displayName: 'Client Cache TTL (S)',
+						name: 'clientCacheTtl',
 						type: 'number',
-						default: 120000,
-						description: 'Request timeout in milliseconds',
+						default: 600,
+						description:
+							'Seconds a downloaded and parsed WSDL is reused across items and executions. Set to 0 to disable caching.',
+					},
+					{
+						displayName: 'Concurrency',
+						name: 'concurrency',
+						type: 'number',
+						default: 1,
+						typeOptions: { minValue: 1 },
+						description:
+							'Number of items processed in parallel. Parallel calls share one session when Session Handling is Automatic or Pooled. Use only for read-only calls.',
+					},
+					{
+						displayName: 'Correlation ID',
+						name: 'correlationId',
+						type: 'string',
+						default: '',
+						description:
+							'Value of the correlation ID header, e.g. an ID from the calling system. A random UUID is generated per item when empty.',
+					},
+					{
+						displayName: 'Correlation ID Header',
+						name: 'correlationIdHeader',
+						type: 'string',
+						default: '',
+						placeholder: 'X-Correlation-ID',
+						description:
+							'HTTP header that carries a per-item correlation ID. The ID is also returned as correlationId in the output. Leave empty to send no correlation ID.',
+					},
+					{
+						displayName: 'Debug Trace',
+						name: 'debugTrace',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to add the sent SOAP envelope, raw response, HTTP status, timing and endpoint of every call as debugTrace to the output and to error details. Passwords and session IDs are redacted.',
 					},
 					{
 						displayName: 'Disable SSL Verification',
@@ -297,85 +1986,427 @@ export class CaniasWebService implements INodeType {
 						default: false,
 						description: 'If enabled, SSL certificate errors will be ignored (not recommended for production)',
 					},
+					{
+						displayName: 'Fixture File Path',
+						name: 'fixtureFilePath',
+						type: 'string',
+						default: '',
+						placeholder: '/data/fixtures/canias.json',
+						description:
+							'JSON file on the n8n server that holds the recorded responses, within the file paths n8n allows. Used when Fixture Storage is File.',
+					},
+					{
+						displayName: 'Fixture Storage',
+						name: 'fixtureStorage',
+						type: 'options',
+						options: [
+							{
+								name: 'File',
+								value: 'file',
+								description: 'JSON file on the n8n server, can be shared between workflows',
+							},
+							{
+								name: 'Workflow Static Data',
+								value: 'staticData',
+								description:
+									'Stored with the workflow; only saved by production (trigger-started) executions',
+							},
+						],
+						default: 'staticData',
+						description: 'Where Record mode stores the responses and Replay mode reads them',
+					},
+					{
+						displayName: 'HTTP Headers',
+						name: 'httpHeaders',
+						type: 'fixedCollection',
+						typeOptions: { multipleValues: true },
+						default: {},
+						placeholder: 'Add Header',
+						description: 'HTTP headers sent with the WSDL download and every SOAP request',
+						options: [
+							{
+								displayName: 'Header',
+								name: 'header',
+								values: [
+									{
+										displayName: 'Name',
+										name: 'name',
+										type: 'string',
+										default: '',
+										placeholder: 'X-Tenant',
+									},
+									{
+										displayName: 'Value',
+										name: 'value',
+										type: 'string',
+										default: '',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Mode',
+						name: 'clientMode',
+						type: 'options',
+						options: [
+							{
+								name: 'Live',
+								value: 'live',
+								description: 'Call CANIAS',
+							},
+							{
+								name: 'Record',
+								value: 'record',
+								description: 'Call CANIAS and store every response',
+							},
+							{
+								name: 'Replay',
+								value: 'replay',
+								description: 'Answer from the stored responses without network access',
+							},
+						],
+						default: 'live',
+						description:
+							'Record responses to develop and test workflows offline with Replay. Requests are matched by operation, service ID, normalized args, return type and permanent flag. Passwords are not stored and session IDs are redacted.',
+					},
+					{
+						displayName: 'Refresh WSDL Client',
+						name: 'refreshClient',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to drop the cached WSDL and download it again at the start of this execution',
+					},
+					{
+						displayName: 'Retry',
+						name: 'retry',
+						type: 'fixedCollection',
+						default: {},
+						placeholder: 'Add Retry Settings',
+						description: 'Retry transient failures with exponential backoff',
+						options: [
+							{
+								displayName: 'Settings',
+								name: 'settings',
+								values: [
+									{
+										displayName: 'Base Delay (Ms)',
+										name: 'baseDelay',
+										type: 'number',
+										default: 500,
+										description:
+											'Delay before the first retry. Doubles with every further attempt.',
+									},
+									{
+										displayName: 'Jitter',
+										name: 'jitter',
+										type: 'boolean',
+										default: true,
+										description:
+											'Whether to randomize delays so parallel executions do not retry at the same moment',
+									},
+									{
+										displayName: 'Max Attempts',
+										name: 'maxAttempts',
+										type: 'number',
+										default: 3,
+										typeOptions: { minValue: 1 },
+										description: 'Total number of attempts, including the first one',
+									},
+									{
+										displayName: 'Max Delay (Ms)',
+										name: 'maxDelay',
+										type: 'number',
+										default: 10000,
+										description: 'Upper limit for the delay between attempts',
+									},
+									{
+										displayName: 'Retry On',
+										name: 'categories',
+										type: 'multiOptions',
+										options: [
+											{ name: 'Connection Error', value: 'connection' },
+											{ name: 'Other HTTP Error', value: 'http' },
+											{ name: 'Service Unavailable (502/503/504)', value: 'unavailable' },
+											{ name: 'SOAP Fault', value: 'soapFault' },
+											{ name: 'Timeout', value: 'timeout' },
+										],
+										default: ['timeout', 'connection', 'unavailable'],
+										description: 'Error categories that are retried',
+									},
+									{
+										displayName: 'Retry Permanent Calls',
+										name: 'retryPermanent',
+										type: 'boolean',
+										default: false,
+										description:
+											'Whether to also retry callIASService calls with Permanent enabled. A retried write may be posted twice in CANIAS.',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'SOAP Headers',
+						name: 'soapHeaders',
+						type: 'fixedCollection',
+						typeOptions: { multipleValues: true },
+						default: {},
+						placeholder: 'Add SOAP Header',
+						description: 'Header blocks added to the SOAP envelope of every request',
+						options: [
+							{
+								displayName: 'Header',
+								name: 'header',
+								values: [
+									{
+										displayName: 'Name',
+										name: 'name',
+										type: 'string',
+										default: '',
+										placeholder: 'e.g. tns:TenantId',
+										description: 'Element name, optionally with a namespace prefix',
+									},
+									{
+										displayName: 'Namespace',
+										name: 'namespace',
+										type: 'string',
+										default: '',
+										placeholder: 'e.g. http://example.com/headers',
+										description: 'Namespace URI declared on the element (for the prefix, if any)',
+									},
+									{
+										displayName: 'Value',
+										name: 'value',
+										type: 'string',
+										default: '',
+										description: 'Text content of the element; XML special characters are escaped',
+									},
+								],
+							},
+							{
+								displayName: 'Raw XML',
+								name: 'rawXml',
+								values: [
+									{
+										displayName: 'XML',
+										name: 'xml',
+										type: 'string',
+										typeOptions: { rows: 4 },
+										default: '',
+										placeholder:
+											'<tns:Auth xmlns:tns="http://example.com/headers"><tns:Token>...</tns:Token></tns:Auth>',
+										description: 'One or more well-formed header elements',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Timeout (ms)',
+						name: 'timeout',
+						type: 'number',
+						default: 120000,
+						description: 'Request timeout in milliseconds',
+					},
 				],
 			},
 		],
 	};
 
+	methods = {
+		credentialTest: {
+			caniasWebServiceApiTest,
+		},
+		listSearch: {
+			searchServices,
+		},
+		loadOptions: {
+			getEnvironments,
+		},
+	};
+
 	async execute(this: IExecuteFunctions) {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
 
-		// Get credentials once for all items
-		const credentials = await this.getCredentials('caniasWebServiceApi');
+		// Get credentials once for all items; environment profiles are applied per item
+		const baseCredentials = await this.getCredentials('caniasWebServiceApi');
+
+		// Number of items processed in parallel and record/replay mode (execution-wide settings)
+		const {
+			concurrency = 1,
+			clientMode = 'live',
+			fixtureStorage = 'staticData',
+			fixtureFilePath = '',
+		} = this.getNodeParameter('advanced', 0, {}) as {
+			concurrency?: number;
+			clientMode?: ClientMode;
+			fixtureStorage?: FixtureStorage;
+			fixtureFilePath?: string;
+		};
+		const fixtures = await getFixtureStore(this, clientMode, fixtureStorage, fixtureFilePath);
 
-		for (let i = 0; i < items.length; i++) {
+		// Client cache keys already refreshed in this execution
+		const refreshedClients = new Set<string>();
+
+		// Session opened (or borrowed from the pool) by the node itself, shared by all items
+		// and always released at the end
+		let managedSession: ManagedSession | undefined;
+		let managedEnvironment = '';
+
+		// Process a single item; returns its output items (several when rows are split)
+		const processItem = async (i: number): Promise<INodeExecutionData[]> => {
 			const operation = this.getNodeParameter('operation', i) as OperationType;
+			let correlationId: string | undefined;
+			let tracer: SoapTracer | undefined;
 
 			try {
+				const credentials = getEnvironmentCredentials(this, i, baseCredentials);
 				const wsdlUrl = credentials.wsdlUrl as string;
-				const endpoint = this.getNodeParameter('endpoint', i, '') as string;
+				const endpoint =
+					(this.getNodeParameter('endpoint', i, '') as string) ||
+					((credentials.endpoint as string | undefined) ?? '');
 				const returnFull = this.getNodeParameter('returnFull', i, false) as boolean;
-				const advanced = this.getNodeParameter('advanced', i, {}) as {
+				const advanced = this.getNodeParameter('advanced', i, {}) as IHeaderSettings & {
 					timeout?: number;
 					disableSslVerification?: boolean;
+					clientCacheTtl?: number;
+					refreshClient?: boolean;
+					debugTrace?: boolean;
+					retry?: { settings?: Partial<IRetryOptions> };
 				};
+				const retryOptions = getRetryOptions(advanced.retry?.settings);
 
-				// Configure SOAP client options
-				const clientOptions: any = {};
-				if (advanced?.timeout) {
-					clientOptions.timeout = advanced.timeout;
+				// The correlation ID travels only with this item's requests, so cached clients stay shared
+				const correlationHeader = getCorrelationHeader(this, i, advanced);
+				correlationId = correlationHeader?.id;
+				const extraHeaders = correlationHeader
+					? { [correlationHeader.name]: correlationHeader.id }
+					: undefined;
+
+				// Get typed SOAP client (cached per WSDL source, endpoint, timeout and SSL options)
+				const clientConfig: IClientConfig = {
+					wsdlUrl,
+					wsdlSource: (credentials.wsdlSource as WsdlSource) || undefined,
+					localWsdlPath: (credentials.localWsdlPath as string) || undefined,
+					endpoint: endpoint || undefined,
+					timeout: advanced.timeout || undefined,
+					disableSslVerification: advanced.disableSslVerification || undefined,
+					...getTransportConfig(credentials),
+					...getCustomHeaders(this, i, advanced),
+				};
+				if (advanced.refreshClient) {
+					const key = getClientCacheKey(clientConfig);
+					if (!refreshedClients.has(key)) {
+						invalidateClient(clientConfig);
+						refreshedClients.add(key);
+					}
 				}
-				if (endpoint) {
-					clientOptions.endpoint = endpoint;
+				let client: ICANIASClient;
+				if (fixtures && clientMode === 'replay') {
+					// No WSDL download and no network access
+					client = fixtures.createReplayClient();
+				} else {
+					const liveClient = await withRetry(
+						async () =>
+							await getClient(
+								clientConfig,
+								this.helpers,
+								(advanced.clientCacheTtl ?? DEFAULT_CLIENT_CACHE_TTL_MS / 1000) * 1000,
+							),
+						retryOptions,
+					);
+					client = fixtures ? fixtures.createRecordingClient(liveClient) : liveClient;
 				}
-				if (advanced?.disableSslVerification) {
-					// Disable SSL verification for self-signed certificates
-					clientOptions.wsdl_options = {
-						rejectUnauthorized: false,
-					};
-					clientOptions.request_options = {
-						rejectUnauthorized: false,
-					};
+
+				// Record this item's calls (every attempt) when debug tracing is enabled
+				tracer = advanced.debugTrace ? new SoapTracer(client) : undefined;
+				const traced = async <T>(
+					tracedOperation: OperationType,
+					call: (options?: { exchangeId: string }) => Promise<T>,
+				): Promise<T> => (tracer ? await tracer.run(tracedOperation, call) : await call(undefined));
+
+				// Resolve the session for operations that need one
+				let session: ManagedSession | undefined;
+				let sessionId = '';
+				if (
+					operation === 'listIASServices' ||
+					operation === 'callIASService' ||
+					operation === 'agentTool'
+				) {
+					// Agent tool calls always use a session of their own
+					let sessionHandling =
+						operation === 'agentTool'
+							? 'automatic'
+							: (this.getNodeParameter('sessionHandling', i, 'manual') as SessionHandling);
+					// Replayed sessions must never reach the pool shared with live executions
+					if (fixtures && sessionHandling === 'pooled') {
+						sessionHandling = 'automatic';
+					}
+
+					if (sessionHandling === 'manual') {
+						sessionId = this.getNodeParameter(
+							operation === 'listIASServices' ? 'listSessionId' : 'sessionid',
+							i,
+						) as string;
+						validateSessionId(sessionId);
+					} else {
+						// Login once with the first item's overrides and reuse the session for all items
+						const environment = this.getNodeParameter('environment', i, '') as string;
+						if (managedSession && environment !== managedEnvironment) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`Environment "${environment}" differs from "${managedEnvironment}" of the shared session`,
+								{
+									itemIndex: i,
+									description:
+										'Automatic and pooled session handling use one session for all items. Select the same environment for all items or use separate nodes.',
+								},
+							);
+						}
+						if (!managedSession) {
+							managedEnvironment = environment;
+							const loginRequest = resolveLoginRequest(credentials, getLoginOverrides(this, i));
+							managedSession = new ManagedSession(
+								client,
+								loginRequest,
+								sessionHandling === 'pooled'
+									? {
+											key: getSessionFingerprint(wsdlUrl, loginRequest, endpoint),
+											options: getSessionPoolOptions(this, i),
+										}
+									: undefined,
+							);
+						}
+						session = managedSession;
+					}
 				}
 
-				// Create typed SOAP client
-				const client = (await soap.createClientAsync(wsdlUrl, clientOptions)) as ICANIASClient;
+				// Run a session-bound call; node-owned sessions are renewed once when they expired
+				const withSession = async <T>(call: (id: string) => Promise<T>): Promise<T> =>
+					session ? await session.run(call) : await call(sessionId);
 
 				// Execute operation and collect response
 				let result: IParsedLoginResult | IParsedListServicesResult | any | IParsedLogoutResult;
 				let rawResponse: string;
 				let soapHeaders: Record<string, any>;
+				let rows: IDataObject[] | undefined;
+				let binary: IBinaryKeyData | undefined;
 
 				if (operation === 'login') {
 					// Login operation with optional parameter overrides
-					// Get all override parameters
-					const clientOverride = this.getNodeParameter('clientOverride', i, '') as string;
-					const languageOverride = this.getNodeParameter('languageOverride', i, '') as string;
-					const dbNameOverride = this.getNodeParameter('dbNameOverride', i, '') as string;
-					const dbServerOverride = this.getNodeParameter('dbServerOverride', i, '') as string;
-					const appServerOverride = this.getNodeParameter('appServerOverride', i, '') as string;
-					const usernameOverride = this.getNodeParameter('usernameOverride', i, '') as string;
-					const passwordOverride = this.getNodeParameter('passwordOverride', i, '') as string;
-
-					// Use override if provided, otherwise use credential default
-					const p_strClient = clientOverride.trim() !== '' ? clientOverride : (credentials.client as string);
-					const p_strLanguage = languageOverride.trim() !== '' ? languageOverride : (credentials.language as string);
-					const p_strDBName = dbNameOverride.trim() !== '' ? dbNameOverride : (credentials.dbName as string);
-					const p_strDBServer = dbServerOverride.trim() !== '' ? dbServerOverride : (credentials.dbServer as string);
-					const p_strAppServer = appServerOverride.trim() !== '' ? appServerOverride : (credentials.appServer as string);
-					const p_strUserName = usernameOverride.trim() !== '' ? usernameOverride : (credentials.username as string);
-					const p_strPassword = passwordOverride.trim() !== '' ? passwordOverride : (credentials.password as string);
-
-					const [res, raw, headers] = await client.loginAsync({
-						p_strClient,
-						p_strLanguage,
-						p_strDBName,
-						p_strDBServer,
-						p_strAppServer,
-						p_strUserName,
-						p_strPassword,
-					});
+					const loginRequest = resolveLoginRequest(credentials, getLoginOverrides(this, i));
+
+					const [res, raw, headers] = await withRetry(
+						async () =>
+							await traced(
+								'login',
+								async (options) => await client.loginAsync(loginRequest, options, extraHeaders),
+							),
+						retryOptions,
+					);
 
 					rawResponse = raw;
 					soapHeaders = headers;
@@ -384,60 +2415,360 @@ export class CaniasWebService implements INodeType {
 					result = parseLoginResponse(res);
 				} else if (operation === 'listIASServices') {
 					// List IAS Services operation
-					const sessionId = this.getNodeParameter('listSessionId', i) as string;
-					validateSessionId(sessionId);
-
-					const [res, raw, headers] = await client.listIASServicesAsync({
-						p_strSessionId: sessionId,
-					});
+					const [res, raw, headers] = await withRetry(
+						async () =>
+							await withSession(
+								async (id) =>
+									await traced(
+										'listIASServices',
+										async (options) =>
+											await client.listIASServicesAsync(
+												{ p_strSessionId: id },
+												options,
+												extraHeaders,
+											),
+									),
+							),
+						retryOptions,
+					);
 
 					rawResponse = raw;
 					soapHeaders = headers;
 
-					// Parse list services response
-					result = parseListServicesResponse(res);
+					// Parse list services response, then filter, deduplicate and sort it
+					const listOptions = this.getNodeParameter('listOptions', i, {}) as IServiceListOptions;
+					let services: string[];
+					try {
+						services = filterServiceList(parseListServicesResponse(res).services, listOptions);
+					} catch (error) {
+						throw new NodeOperationError(
+							this.getNode(),
+							`Invalid service filter: ${(error as Error).message}`,
+							{ itemIndex: i },
+						);
+					}
+					result = { services };
+
+					// One item per service, ready to be used as Service ID of a callIASService node
+					const listOutputMode = this.getNodeParameter(
+						'listOutputMode',
+						i,
+						'single',
+					) as ListOutputMode;
+					if (listOutputMode === 'perService') {
+						rows = services.map((service) => ({ serviceid: service }));
+					}
 				} else if (operation === 'callIASService') {
 					// Call IAS Service operation
-					const sessionId = this.getNodeParameter('sessionid', i) as string;
-					const serviceId = this.getNodeParameter('serviceid', i) as string;
+					const serviceId = this.getNodeParameter('serviceid', i, '', {
+						extractValue: true,
+					}) as string;
 					const returntype = this.getNodeParameter('returntype', i) as string;
 					const permanent = this.getNodeParameter('permanent', i) as boolean;
 					const argsMode = this.getNodeParameter('argsMode', i) as CallArgsMode;
 
 					// Validate inputs
-					validateSessionId(sessionId);
 					validateServiceId(serviceId);
 
+					// Input binary data sent base64 encoded in the args
+					const sendBinary = this.getNodeParameter('sendBinary', i, false) as boolean;
+					const binaryInjection = this.getNodeParameter(
+						'binaryInjection',
+						i,
+						'placeholder',
+					) as BinaryArgsInjection;
+					const binaryArg = sendBinary ? await getInputBinaryBase64(this, i) : undefined;
+					if (
+						binaryArg !== undefined &&
+						binaryInjection === 'jsonProperty' &&
+						argsMode !== 'jsonString'
+					) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'Binary Injection "JSON Property" requires Args Mode "JSON Object"',
+							{ itemIndex: i },
+						);
+					}
+
+					// Locale of the session: converts the result and optionally the JSON args.
+					// Manual sessions were opened elsewhere, they are assumed to use the credential language.
+					const localeConversion = getLocaleConversion(
+						this,
+						i,
+						session?.loginRequest.p_strLanguage ?? credentials.language,
+					);
+
 					// Prepare args parameter
 					let args: string;
 					if (argsMode === 'jsonString') {
-						const argsJson = this.getNodeParameter('argsJson', i, {}) as object;
-						args = JSON.stringify(argsJson ?? {});
+						const argsJson = this.getNodeParameter('argsJson', i, {}) as IDataObject;
+						args = JSON.stringify(
+							binaryArg !== undefined && binaryInjection === 'jsonProperty'
+								? {
+										...argsJson,
+										[this.getNodeParameter('binaryJsonProperty', i) as string]: binaryArg,
+									}
+								: (argsJson ?? {}),
+						);
+					} else if (argsMode === 'typed') {
+						args = getTypedArgs(this, i);
 					} else {
 						args = this.getNodeParameter('argsRaw', i, '') as string;
 					}
+					if (binaryArg !== undefined && binaryInjection === 'placeholder') {
+						const placeholder = this.getNodeParameter('binaryPlaceholder', i) as string;
+						if (!placeholder || !args.includes(placeholder)) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`The args do not contain the binary placeholder "${placeholder}"`,
+								{ itemIndex: i },
+							);
+						}
+						args = args.split(placeholder).join(binaryArg);
+					}
+
+					// Pagination: the args of every page get the page number or offset injected
+					const pagination = this.getNodeParameter('paginate', i, false)
+						? getPaginationOptions(this, i)
+						: undefined;
+					let firstArgs = args;
+					if (pagination) {
+						try {
+							firstArgs = injectPage(args, pagination, 0);
+						} catch (error) {
+							throw new NodeOperationError(this.getNode(), error as Error, { itemIndex: i });
+						}
+					}
 
-					const [res, raw, headers] = await client.callIASServiceAsync({
-						sessionid: sessionId,
-						serviceid: serviceId,
-						args,
-						returntype,
-						permanent,
-					});
+					// Catch wrong args before they reach CANIAS as a cryptic SOAP fault
+					const catalogValidation = this.getNodeParameter(
+						'catalogValidation',
+						i,
+						'full',
+					) as CatalogValidation;
+					const catalogEntry =
+						catalogValidation === 'off'
+							? undefined
+							: getServiceCatalogEntry(this, i, credentials, serviceId);
+					if (catalogEntry?.args) {
+						try {
+							assertValidArgs(
+								getArgsForValidation(this, i, argsMode, firstArgs, catalogEntry.args),
+								catalogEntry.args,
+							);
+						} catch (error) {
+							if (error instanceof SchemaValidationError) {
+								throw toSchemaValidationError(this, i, error);
+							}
+							throw error;
+						}
+					}
 
-					rawResponse = raw;
-					soapHeaders = headers;
+					// Args are validated as entered and only then written in the locale format
+					if (argsMode === 'jsonString' && localeConversion?.formatArgs) {
+						args = JSON.stringify(formatArgsLocale(JSON.parse(args), localeConversion));
+					}
+
+					// Permanent calls are not retried unless explicitly allowed (avoids duplicate postings)
+					const callService = async (callArgs: string) =>
+						await withRetry(
+							async () =>
+								await withSession(
+									async (id) =>
+										await traced(
+											'callIASService',
+											async (options) =>
+												await client.callIASServiceAsync(
+													{
+														sessionid: id,
+														serviceid: serviceId,
+														args: callArgs,
+														returntype,
+														permanent,
+													},
+													options,
+													extraHeaders,
+												),
+										),
+								),
+							permanent && !retryOptions?.retryPermanent ? undefined : retryOptions,
+						);
+
+					// Parse call service response and its payload
+					const outputParsing = this.getNodeParameter('outputParsing', i, 'none') as OutputParsing;
+					const outputMode = this.getNodeParameter('outputMode', i, 'single') as OutputMode;
+					const binaryOutput = this.getNodeParameter('binaryOutput', i, 'none') as BinaryOutputMode;
+					const resultSchema = catalogValidation === 'full' ? catalogEntry?.result : undefined;
+					// Result schemas, rows and locale conversion need structured data, so an unparsed payload is parsed first
+					const needsStructure =
+						resultSchema !== undefined ||
+						outputMode === 'splitRows' ||
+						pagination !== undefined ||
+						(localeConversion !== undefined && localeConversion.resultConversion !== 'off');
+					const parseResult = (returnValue: unknown): unknown => {
+						let parsed = parseServiceResult(
+							returnValue,
+							needsStructure && outputParsing === 'none' ? 'auto' : outputParsing,
+							returntype,
+							getXmlParseOptions(this, i),
+						);
+						// Converted after the final parse, so rows and the result schema see numbers, dates and booleans
+						if (localeConversion) {
+							parsed = convertResultLocale(parsed, localeConversion);
+						}
+						return resultSchema ? applyResultSchema(parsed, resultSchema) : parsed;
+					};
+					try {
+						if (pagination) {
+							// Pages are requested one after another until the stop condition is met
+							const responses: Array<Awaited<ReturnType<typeof callService>>> = [];
+							const paged = await collectPages(pagination, async (pageIndex) => {
+								const response = await callService(injectPage(args, pagination, pageIndex));
+								responses.push(response);
+								const pageResult = parseResult(parseCallServiceResponse(response[0]));
+								return {
+									result: pageResult,
+									rows: splitResultRows(this, i, pageResult, pageIndex > 0),
+								};
+							});
+
+							// Raw response and SOAP headers of the last page
+							[, rawResponse, soapHeaders] = responses[responses.length - 1];
+							if (outputMode === 'splitRows') {
+								rows = paged.rows;
+							} else {
+								result = {
+									rows: paged.rows,
+									rowCount: paged.rows.length,
+									pageCount: paged.pageCount,
+									...(paged.totalCount === undefined ? {} : { totalCount: paged.totalCount }),
+								};
+							}
+						} else {
+							const [res, raw, headers] = await callService(args);
+							rawResponse = raw;
+							soapHeaders = headers;
+
+							const returnValue = parseCallServiceResponse(res);
+							const decoded = decodeBinaryResult(returnValue, binaryOutput);
+
+							if (decoded) {
+								// Generated documents (PDF, Excel, ...) become binary data
+								({ result, binary } = await prepareBinaryResult(this, i, serviceId, decoded));
+							} else {
+								result = parseResult(returnValue);
+
+								// Split table results into one item per row
+								if (outputMode === 'splitRows') {
+									rows = splitResultRows(this, i, result);
+								}
+							}
+						}
+					} catch (error) {
+						if (error instanceof ResultParseError) {
+							throw new NodeOperationError(this.getNode(), error.message, {
+								itemIndex: i,
+								description: `Raw ${error.format} payload: ${error.snippet}`,
+							});
+						}
+						if (error instanceof SchemaValidationError) {
+							throw toSchemaValidationError(this, i, error);
+						}
+						if (error instanceof PaginationError) {
+							throw new NodeOperationError(this.getNode(), error.message, {
+								itemIndex: i,
+								description: 'Check the page settings and the Row Path in Table Options',
+							});
+						}
+						throw error;
+					}
+				} else if (operation === 'agentTool') {
+					// Agent tool: list the functions or call the selected service read-only
+					const functions = getAgentFunctions(this, i, credentials);
+					const functionName = (this.getNodeParameter('agentFunction', i, '') as string).trim();
+
+					if (functionName === '' || functionName === LIST_FUNCTIONS) {
+						// Answered locally, no SOAP call (and no login) is made
+						rawResponse = '';
+						soapHeaders = {};
+						result = { functions: describeAgentFunctions(functions) };
+					} else {
+						const fn = functions.find(({ name }) => name === functionName);
+						if (!fn) {
+							throw new NodeOperationError(this.getNode(), `Unknown function "${functionName}"`, {
+								itemIndex: i,
+								description: `Available functions: ${functions.map(({ name }) => name).join(', ')}`,
+							});
+						}
+						const args = getAgentArgs(this, i, fn);
+
+						const [res, raw, headers] = await withRetry(
+							async () =>
+								await withSession(
+									async (id) =>
+										await traced(
+											'callIASService',
+											async (options) =>
+												await client.callIASServiceAsync(
+													{
+														sessionid: id,
+														serviceid: fn.serviceid,
+														args,
+														returntype: fn.returntype,
+														permanent: false,
+													},
+													options,
+													extraHeaders,
+												),
+										),
+								),
+							retryOptions,
+						);
 
-					// Parse call service response
-					result = parseCallServiceResponse(res);
+						rawResponse = raw;
+						soapHeaders = headers;
+
+						let parsed: unknown;
+						try {
+							parsed = parseServiceResult(parseCallServiceResponse(res), 'auto', fn.returntype);
+						} catch (error) {
+							if (error instanceof ResultParseError) {
+								throw new NodeOperationError(this.getNode(), error.message, {
+									itemIndex: i,
+									description: `Raw ${error.format} payload: ${error.snippet}`,
+								});
+							}
+							throw error;
+						}
+
+						const limits = this.getNodeParameter(
+							'agentResultLimits',
+							i,
+							{},
+						) as Partial<IAgentResultLimits>;
+						result = {
+							function: fn.name,
+							...trimAgentResult(parsed, { ...DEFAULT_AGENT_RESULT_LIMITS, ...limits }),
+						};
+					}
 				} else if (operation === 'logout') {
 					// Logout operation
-					const sessionId = this.getNodeParameter('p_strSessionId', i) as string;
-					validateSessionId(sessionId);
+					const logoutSessionId = this.getNodeParameter('p_strSessionId', i) as string;
+					validateSessionId(logoutSessionId);
 
-					const [res, raw, headers] = await client.logoutAsync({
-						p_strSessionId: sessionId,
-					});
+					const [res, raw, headers] = await withRetry(
+						async () =>
+							await traced(
+								'logout',
+								async (options) =>
+									await client.logoutAsync(
+										{ p_strSessionId: logoutSessionId },
+										options,
+										extraHeaders,
+									),
+							),
+						retryOptions,
+					);
 
 					rawResponse = raw;
 					soapHeaders = headers;
@@ -449,29 +2780,100 @@ export class CaniasWebService implements INodeType {
 					throw new Error(`Unsupported operation: ${operation}`);
 				}
 
-				// Prepare output based on returnFull setting
+				// Echo the correlation ID so the output can be matched with server logs, plus the debug trace
+				const debugTrace = tracer?.getTrace();
+				const withItemInfo = (json: IDataObject): IDataObject =>
+					correlationId || debugTrace
+						? {
+								...json,
+								...(correlationId ? { correlationId } : {}),
+								...(debugTrace ? { debugTrace } : {}),
+							}
+						: json;
+
+				// Prepare output based on output mode and returnFull setting
+				if (rows) {
+					return rows.map((row) => ({ json: withItemInfo(row), pairedItem: { item: i } }));
+				}
+				if (binary) {
+					// The raw response is left out, it only repeats the document as base64
+					return [
+						{
+							json: withItemInfo(returnFull ? { result, soapHeaders } : result),
+							binary,
+							pairedItem: { item: i },
+						},
+					];
+				}
 				if (returnFull) {
-					returnData.push({
-						json: {
-							result,
-							rawResponse,
-							soapHeaders,
+					return [
+						{
+							json: withItemInfo({
+								result,
+								rawResponse,
+								soapHeaders,
+							}),
+							pairedItem: { item: i },
 						},
-					});
-				} else {
-					// Return clean result
-					if (['string', 'number', 'boolean'].includes(typeof result)) {
-						returnData.push({ json: { data: result } });
-					} else {
-						returnData.push({ json: result ?? {} });
-					}
+					];
+				}
+				// Return clean result
+				if (['string', 'number', 'boolean'].includes(typeof result)) {
+					return [{ json: withItemInfo({ data: result }), pairedItem: { item: i } }];
+				}
+				return [{ json: withItemInfo(result ?? {}), pairedItem: { item: i } }];
+			} catch (caught) {
+				managedSession?.markFailed(caught);
+				const debugTrace = tracer?.getTrace();
+				const error =
+					caught instanceof FixtureMissError ? toFixtureMissError(this, i, caught) : caught;
+
+				// Emit a structured error item and keep processing the remaining items
+				if (this.continueOnFail()) {
+					return [
+						{
+							json: {
+								error: buildErrorPayload(error, this.getNode(), i, operation),
+								...(correlationId ? { correlationId } : {}),
+								...(debugTrace ? { debugTrace } : {}),
+							},
+							pairedItem: { item: i },
+						},
+					];
+				}
+
+				// Enhanced error handling with SOAP fault parsing; the trace goes into the error details
+				const nodeError = createSOAPError(error, this.getNode(), i, operation);
+				if (debugTrace) {
+					nodeError.description = [
+						nodeError.description,
+						`Debug trace: ${JSON.stringify(debugTrace, null, 2)}`,
+					]
+						.filter(Boolean)
+						.join('\n\n');
 				}
-			} catch (error) {
-				// Enhanced error handling with SOAP fault parsing
-				handleSOAPError(error, this.getNode(), i, operation);
+				throw nodeError;
+			}
+		};
+
+		try {
+			// Items run in parallel up to the concurrency limit; output order follows input order
+			const results = await mapWithConcurrency(
+				items,
+				concurrency,
+				async (_item, i) => await processItem(i),
+			);
+			returnData.push(...results.flat());
+		} finally {
+			// Always logout (or return to the pool) the managed session, even when an item failed
+			await managedSession?.close();
+
+			// Keep what was recorded, also when an item failed
+			if (fixtures && clientMode === 'record') {
+				await saveFixtures(this, fixtures);
 			}
 		}
 
 		return this.prepareOutputData(returnData);
 	}
-}
\ No newline at end of file
+}
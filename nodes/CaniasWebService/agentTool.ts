@@ -0,0 +1,218 @@
+/**
+ * AI agent tool mode for CANIAS Web Service
+ * Describes the configured IAS services as functions, builds their args and trims results for an LLM
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import { buildArgsString } from './argsBuilder';
+import { assertSupportedSchema, getCatalogEntry } from './schemaCatalog';
+import { extractTable } from './tableParsing';
+import type {
+	AgentArgsEncoding,
+	ArgumentType,
+	IAgentFunction,
+	IAgentResultLimits,
+	ISchema,
+	IServiceCatalogEntry,
+	ITypedArgument,
+} from './types';
+
+/**
+ * Function name that returns the available functions instead of calling a service
+ */
+export const LIST_FUNCTIONS = 'list_functions';
+
+export const DEFAULT_AGENT_RESULT_LIMITS: IAgentResultLimits = {
+	maxRows: 50,
+	maxCharacters: 10000,
+};
+
+/**
+ * Function names accepted by LLM tool-calling APIs
+ */
+const FUNCTION_NAME_PATTERN = /^[A-Za-z_][\w-]{0,63}$/;
+
+/**
+ * A function as configured in the node (parameters may still be a JSON string)
+ */
+export interface IAgentFunctionDefinition {
+	name?: string;
+	serviceid: string;
+	description?: string;
+	parameters?: string | IDataObject;
+	returntype?: string;
+	argsEncoding?: AgentArgsEncoding;
+}
+
+/**
+ * Default function name of a service, e.g. SALESORDERLIST -> salesorderlist
+ */
+function toFunctionName(serviceId: string): string {
+	return serviceId
+		.trim()
+		.toLowerCase()
+		.replace(/[^\w-]+/g, '_');
+}
+
+function parseParameters(
+	parameters: IAgentFunctionDefinition['parameters'],
+	name: string,
+): ISchema | undefined {
+	if (parameters === undefined || parameters === '' || parameters === null) {
+		return undefined;
+	}
+	let schema: unknown = parameters;
+	if (typeof parameters === 'string') {
+		try {
+			schema = JSON.parse(parameters);
+		} catch (error) {
+			throw new Error(
+				`Parameters Schema of function "${name}" is not valid JSON: ${(error as Error).message}`,
+			);
+		}
+	}
+	assertSupportedSchema(schema, `${name}.parameters`);
+	return schema as ISchema;
+}
+
+/**
+ * Resolve the configured functions; description and parameter schema fall back to the service catalog
+ */
+export function resolveAgentFunctions(
+	definitions: IAgentFunctionDefinition[],
+	catalog: Record<string, IServiceCatalogEntry>,
+): IAgentFunction[] {
+	const names = new Set<string>();
+
+	return definitions.map((definition) => {
+		const serviceid = definition.serviceid?.trim();
+		if (!serviceid) {
+			throw new Error('Every function needs a service ID');
+		}
+
+		const name = definition.name?.trim() || toFunctionName(serviceid);
+		if (!FUNCTION_NAME_PATTERN.test(name) || name === LIST_FUNCTIONS) {
+			throw new Error(
+				`Invalid function name "${name}" (letters, digits, _ and -, at most 64 characters, not "${LIST_FUNCTIONS}")`,
+			);
+		}
+		if (names.has(name)) {
+			throw new Error(`Function name "${name}" is used more than once`);
+		}
+		names.add(name);
+
+		const catalogEntry = getCatalogEntry(catalog, serviceid);
+		const parameters = parseParameters(definition.parameters, name) ?? catalogEntry?.args;
+		const argsEncoding = definition.argsEncoding ?? 'json';
+		if (argsEncoding !== 'json' && !parameters?.properties) {
+			throw new Error(
+				`Function "${name}" needs a parameter schema with properties for positional or named args`,
+			);
+		}
+
+		return {
+			name,
+			serviceid,
+			description: definition.description?.trim() || catalogEntry?.description || '',
+			parameters,
+			returntype: definition.returntype?.trim() || 'json',
+			argsEncoding,
+		};
+	});
+}
+
+/**
+ * Function list returned for list_functions, in the shape of LLM tool definitions
+ */
+export function describeAgentFunctions(functions: IAgentFunction[]): IDataObject[] {
+	return functions.map(({ name, description, parameters }) => ({
+		name,
+		description,
+		parameters: (parameters ?? { type: 'object' }) as IDataObject,
+	}));
+}
+
+function toArgumentType(schema: ISchema | undefined): ArgumentType {
+	const type = Array.isArray(schema?.type) ? schema?.type[0] : schema?.type;
+	if (schema?.format === 'date' || schema?.format === 'date-time') {
+		return 'date';
+	}
+	switch (type) {
+		case 'integer':
+			return 'integer';
+		case 'number':
+			return 'decimal';
+		case 'boolean':
+			return 'boolean';
+		case 'array':
+			return 'list';
+		default:
+			return 'string';
+	}
+}
+
+/**
+ * Build the args string of an agent function call
+ */
+export function buildAgentArgs(fn: IAgentFunction, args: IDataObject): string {
+	if (fn.argsEncoding === 'json') {
+		return JSON.stringify(args);
+	}
+
+	// Arguments follow the order of the schema properties
+	const required = fn.parameters?.required ?? [];
+	const typedArgs: ITypedArgument[] = Object.entries(fn.parameters?.properties ?? {}).map(
+		([name, schema]) => {
+			const value = args[name];
+			return {
+				name,
+				type: toArgumentType(schema),
+				value:
+					value === undefined || value === null
+						? ''
+						: Array.isArray(value)
+							? JSON.stringify(value)
+							: String(value),
+				required: required.includes(name),
+			};
+		},
+	);
+	return buildArgsString(typedArgs, { format: fn.argsEncoding });
+}
+
+/**
+ * Keep a result within the limits: tables keep at most maxRows rows (fewer while the JSON text is
+ * longer than maxCharacters), anything else that is too large is cut to maxCharacters of JSON text.
+ * The flags tell the agent that it sees only part of the data.
+ */
+export function trimAgentResult(result: unknown, limits: IAgentResultLimits): IDataObject {
+	let trimmed: IDataObject = { result: result as IDataObject };
+
+	const table = typeof result === 'object' && result !== null ? extractTable(result) : undefined;
+	if (table) {
+		const withRows = (count: number): IDataObject => ({
+			rows: table.rows.slice(0, count),
+			rowCount: table.rows.length,
+			...(count < table.rows.length ? { truncated: true } : {}),
+		});
+
+		// Whole rows are dropped rather than cutting a row in the middle
+		let count = Math.min(table.rows.length, limits.maxRows);
+		trimmed = withRows(count);
+		while (count > 1 && JSON.stringify(trimmed).length > limits.maxCharacters) {
+			count = Math.floor(count / 2);
+			trimmed = withRows(count);
+		}
+	}
+
+	const text = JSON.stringify(trimmed);
+	if (text.length > limits.maxCharacters) {
+		return {
+			result: text.slice(0, limits.maxCharacters),
+			truncated: true,
+			totalCharacters: text.length,
+			...(table ? { rowCount: table.rows.length } : {}),
+		};
+	}
+	return trimmed;
+}
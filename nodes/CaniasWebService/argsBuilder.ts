@@ -0,0 +1,245 @@
+/**
+ * Typed argument builder for CANIAS Web Service
+ * Validates named, typed arguments and serializes them into the callIASService args string
+ */
+
+import type { IArgsFormatOptions, ITypedArgument } from './types';
+
+/**
+ * Default serialization settings
+ */
+export const DEFAULT_ARGS_FORMAT: IArgsFormatOptions = {
+	format: 'positional',
+	delimiter: ',',
+	listDelimiter: ';',
+	quoteStrings: false,
+	dateFormat: 'dd.MM.yyyy',
+	decimalSeparator: '.',
+	booleanTrue: '1',
+	booleanFalse: '0',
+	turkishCharacters: 'keep',
+};
+
+/**
+ * Transliteration table for Turkish characters
+ */
+const TURKISH_TRANSLITERATION: Record<string, string> = {
+	ç: 'c',
+	Ç: 'C',
+	ğ: 'g',
+	Ğ: 'G',
+	ı: 'i',
+	İ: 'I',
+	ö: 'o',
+	Ö: 'O',
+	ş: 's',
+	Ş: 'S',
+	ü: 'u',
+	Ü: 'U',
+};
+
+/**
+ * Accepted spellings of boolean values (including Turkish Evet/Hayır and CANIAS E/H flags)
+ */
+const TRUE_VALUES = ['true', '1', 'yes', 'y', 'evet', 'e'];
+const FALSE_VALUES = ['false', '0', 'no', 'n', 'hayır', 'hayir', 'h'];
+
+/**
+ * Error thrown when an argument does not match its declared type
+ */
+export class ArgumentValidationError extends Error {
+	constructor(
+		readonly argument: string,
+		message: string,
+	) {
+		super(`Argument "${argument}": ${message}`);
+		this.name = 'ArgumentValidationError';
+	}
+}
+
+function pad(value: number, length = 2): string {
+	return String(value).padStart(length, '0');
+}
+
+/**
+ * Format a date with yyyy, MM, dd, HH, mm and ss tokens
+ */
+export function formatDate(date: Date, format: string): string {
+	const tokens: Record<string, string> = {
+		yyyy: String(date.getFullYear()),
+		MM: pad(date.getMonth() + 1),
+		dd: pad(date.getDate()),
+		HH: pad(date.getHours()),
+		mm: pad(date.getMinutes()),
+		ss: pad(date.getSeconds()),
+	};
+	return format.replace(/yyyy|MM|dd|HH|mm|ss/g, (token) => tokens[token]);
+}
+
+/**
+ * Parse ISO (2025-12-31[T..]) and Turkish (31.12.2025) dates
+ */
+export function parseDate(value: string): Date | undefined {
+	const turkish = /^(\d{1,2})\.(\d{1,2})\.(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/.exec(
+		value,
+	);
+	if (turkish) {
+		const [, day, month, year, hours = '0', minutes = '0', seconds = '0'] = turkish;
+		const date = new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+		return date.getDate() === +day && date.getMonth() === +month - 1 ? date : undefined;
+	}
+
+	if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+		// Date-only ISO strings are local dates, not UTC midnight
+		const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+			? new Date(`${value}T00:00:00`)
+			: new Date(value);
+		return isNaN(date.getTime()) ? undefined : date;
+	}
+
+	return undefined;
+}
+
+/**
+ * Apply the Turkish character handling
+ */
+function convertCharacters(value: string, options: IArgsFormatOptions): string {
+	if (options.turkishCharacters === 'transliterate') {
+		return value.replace(/[çÇğĞıİöÖşŞüÜ]/g, (char) => TURKISH_TRANSLITERATION[char]);
+	}
+	if (options.turkishCharacters === 'escape') {
+		return value.replace(
+			/[^\x20-\x7e]/g,
+			(char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`,
+		);
+	}
+	return value;
+}
+
+/**
+ * Escape backslashes, quotes and delimiters inside a single value (and '=' in the named format)
+ */
+function escapeValue(
+	value: string,
+	options: IArgsFormatOptions,
+	extraDelimiters: string[] = [],
+): string {
+	const special = [
+		'\\',
+		"'",
+		options.delimiter,
+		options.format === 'named' ? '=' : '',
+		...extraDelimiters,
+	].filter((char) => char !== '');
+	let escaped = '';
+	for (const char of value) {
+		escaped += special.includes(char) ? `\\${char}` : char;
+	}
+	// Converted after escaping, so \uXXXX sequences keep their single backslash
+	return convertCharacters(escaped, options);
+}
+
+/**
+ * Validate a single argument and convert it to its CANIAS string form
+ */
+function serializeValue(argument: ITypedArgument, options: IArgsFormatOptions): string {
+	const raw = (argument.value ?? '').trim();
+	if (raw === '') {
+		if (argument.required) {
+			throw new ArgumentValidationError(argument.name, 'A value is required');
+		}
+		return '';
+	}
+
+	switch (argument.type) {
+		case 'integer': {
+			const match = /^([-+]?)(\d+)$/.exec(raw);
+			if (!match) {
+				throw new ArgumentValidationError(argument.name, `"${raw}" is not an integer`);
+			}
+			// The digits are kept as text, so integers above 2^53 do not lose precision
+			const digits = match[2].replace(/^0+(?=\d)/, '');
+			return match[1] === '-' && digits !== '0' ? `-${digits}` : digits;
+		}
+
+		case 'decimal': {
+			const normalized = raw.replace(',', '.');
+			if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(normalized)) {
+				throw new ArgumentValidationError(argument.name, `"${raw}" is not a decimal number`);
+			}
+			return normalized.replace('.', options.decimalSeparator);
+		}
+
+		case 'date': {
+			const date = parseDate(raw);
+			if (!date) {
+				throw new ArgumentValidationError(
+					argument.name,
+					`"${raw}" is not a valid date (use YYYY-MM-DD or DD.MM.YYYY)`,
+				);
+			}
+			return formatDate(date, options.dateFormat);
+		}
+
+		case 'boolean': {
+			const lower = raw.toLocaleLowerCase('tr-TR');
+			if (TRUE_VALUES.includes(lower)) {
+				return options.booleanTrue;
+			}
+			if (FALSE_VALUES.includes(lower)) {
+				return options.booleanFalse;
+			}
+			throw new ArgumentValidationError(argument.name, `"${raw}" is not a boolean`);
+		}
+
+		case 'list': {
+			let values: unknown[];
+			if (raw.startsWith('[')) {
+				try {
+					values = JSON.parse(raw);
+				} catch {
+					throw new ArgumentValidationError(argument.name, 'List is not a valid JSON array');
+				}
+			} else {
+				values = raw.split(',').map((value) => value.trim());
+			}
+			return values
+				.map((value) => escapeValue(String(value), options, [options.listDelimiter]))
+				.join(options.listDelimiter);
+		}
+
+		default: {
+			const escaped = escapeValue(raw, options);
+			return options.quoteStrings ? `'${escaped}'` : escaped;
+		}
+	}
+}
+
+/**
+ * Validate typed arguments and build the callIASService args string
+ */
+export function buildArgsString(
+	args: ITypedArgument[],
+	formatOptions: Partial<IArgsFormatOptions> = {},
+): string {
+	const options: IArgsFormatOptions = { ...DEFAULT_ARGS_FORMAT, ...formatOptions };
+
+	return args
+		.map((argument) => {
+			if (options.format === 'named' && !argument.name?.trim()) {
+				throw new ArgumentValidationError('(unnamed)', 'Named format requires a name');
+			}
+			if (
+				options.format === 'named' &&
+				['=', options.delimiter].some((char) => char !== '' && argument.name.includes(char))
+			) {
+				throw new ArgumentValidationError(
+					argument.name,
+					`Names in the named format cannot contain "=" or the delimiter "${options.delimiter}"`,
+				);
+			}
+			const value = serializeValue(argument, options);
+			return options.format === 'named' ? `${argument.name.trim()}=${value}` : value;
+		})
+		.join(options.delimiter);
+}
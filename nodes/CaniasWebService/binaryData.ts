@@ -0,0 +1,121 @@
+/**
+ * Binary result handling for CANIAS Web Service
+ * Detects base64 encoded documents (PDF, Excel, ...) in service results
+ */
+
+import type { BinaryOutputMode, IDecodedBinaryResult, IDetectedFileType } from './types';
+import { parseBase64Result, ResultParseError } from './responseParsing';
+
+/**
+ * Magic numbers of the document types IAS services typically return
+ */
+const SIGNATURES: Array<{ bytes: number[]; fileType: IDetectedFileType }> = [
+	{ bytes: [0x25, 0x50, 0x44, 0x46], fileType: { mimeType: 'application/pdf', extension: 'pdf' } },
+	{ bytes: [0x89, 0x50, 0x4e, 0x47], fileType: { mimeType: 'image/png', extension: 'png' } },
+	{ bytes: [0xff, 0xd8, 0xff], fileType: { mimeType: 'image/jpeg', extension: 'jpg' } },
+	{ bytes: [0x47, 0x49, 0x46, 0x38], fileType: { mimeType: 'image/gif', extension: 'gif' } },
+	{
+		bytes: [0x7b, 0x5c, 0x72, 0x74, 0x66],
+		fileType: { mimeType: 'application/rtf', extension: 'rtf' },
+	},
+	// Legacy (OLE) Office files; CANIAS exports in this format are Excel workbooks
+	{
+		bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+		fileType: { mimeType: 'application/vnd.ms-excel', extension: 'xls' },
+	},
+	{ bytes: [0x50, 0x4b, 0x03, 0x04], fileType: { mimeType: 'application/zip', extension: 'zip' } },
+];
+
+/**
+ * Office Open XML documents are ZIP archives, told apart by their part folders
+ */
+const OFFICE_TYPES: Array<{ folder: string; fileType: IDetectedFileType }> = [
+	{
+		folder: 'xl/',
+		fileType: {
+			mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+			extension: 'xlsx',
+		},
+	},
+	{
+		folder: 'word/',
+		fileType: {
+			mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+			extension: 'docx',
+		},
+	},
+	{
+		folder: 'ppt/',
+		fileType: {
+			mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+			extension: 'pptx',
+		},
+	},
+];
+
+/**
+ * How much of a ZIP archive is searched for Office part folders
+ */
+const OFFICE_SEARCH_LENGTH = 64 * 1024;
+
+/**
+ * Detect the file type of binary content from its magic number
+ */
+export function detectFileType(data: Buffer): IDetectedFileType | undefined {
+	const signature = SIGNATURES.find(({ bytes }) =>
+		bytes.every((byte, index) => data[index] === byte),
+	);
+	if (!signature) {
+		return undefined;
+	}
+
+	if (signature.fileType.extension === 'zip') {
+		const head = data.subarray(0, OFFICE_SEARCH_LENGTH);
+		const office = OFFICE_TYPES.find(({ folder }) => head.includes(folder, 0, 'latin1'));
+		return office?.fileType ?? signature.fileType;
+	}
+
+	return signature.fileType;
+}
+
+/**
+ * Decode a callIASServiceReturn value as binary content.
+ * In auto mode only base64 payloads of a known file type are treated as binary,
+ * so regular text results pass through unchanged (undefined is returned).
+ */
+export function decodeBinaryResult(
+	value: unknown,
+	mode: BinaryOutputMode,
+): IDecodedBinaryResult | undefined {
+	if (mode === 'none') {
+		return undefined;
+	}
+
+	if (typeof value !== 'string') {
+		if (mode === 'base64') {
+			throw new ResultParseError('Base64', JSON.stringify(value) ?? '', 'result is not a string');
+		}
+		return undefined;
+	}
+
+	let decoded: { data: Buffer; mimeType?: string };
+	try {
+		decoded = parseBase64Result(value);
+	} catch (error) {
+		if (mode === 'base64') {
+			throw error;
+		}
+		return undefined;
+	}
+
+	const fileType = detectFileType(decoded.data);
+	if (mode === 'auto' && !fileType && !decoded.mimeType) {
+		return undefined;
+	}
+
+	return {
+		data: decoded.data,
+		mimeType: decoded.mimeType ?? fileType?.mimeType,
+		extension: fileType?.extension,
+	};
+}
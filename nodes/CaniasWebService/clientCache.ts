@@ -0,0 +1,183 @@
+/**
+ * SOAP client cache for CANIAS Web Service
+ * Parsed WSDLs are reused across items and executions instead of being downloaded per item.
+ * Clients and their transport are created per call, so they never outlive the execution that uses them.
+ */
+
+import { createHash } from 'crypto';
+import * as soap from 'soap';
+import type { ICANIASClient, IClientConfig } from './types';
+import type { IRequestHelpers, ITransportSettings } from './transport';
+import {
+	getTransportSettings,
+	hasTransportSettings,
+	needsRequestHelper,
+	TransportRequest,
+	TransportSecurity,
+} from './transport';
+import { createBundledWsdl, getEndpointFromWsdlUrl } from './wsdl';
+
+/**
+ * Default time a cached WSDL stays valid
+ */
+export const DEFAULT_CLIENT_CACHE_TTL_MS = 10 * 60 * 1000;
+
+interface ICachedWsdl {
+	wsdl: Promise<soap.WSDL>;
+	expiresAt: number;
+}
+
+const cache = new Map<string, ICachedWsdl>();
+
+/**
+ * Build the cache key for a client configuration.
+ * Hashed so that secrets in the configuration are not kept as plain map keys.
+ */
+export function getClientCacheKey(config: IClientConfig): string {
+	return createHash('sha256').update(JSON.stringify(config)).digest('hex');
+}
+
+/**
+ * Build soap.createClientAsync options from a client configuration
+ */
+export function buildClientOptions(
+	config: IClientConfig,
+	transport: ITransportSettings = getTransportSettings(config),
+	transportRequest?: TransportRequest,
+): soap.IOptions {
+	// WSDL caching is handled here, so soap's own (never expiring) per-URL cache is bypassed
+	const clientOptions: soap.IOptions = { disableCache: true };
+	if (config.endpoint) {
+		clientOptions.endpoint = config.endpoint;
+	}
+	// wsdl_options are merged into the axios request that downloads the WSDL
+	if (config.timeout) {
+		clientOptions.wsdl_options = { timeout: config.timeout };
+	}
+	// TLS and proxies are applied by the n8n request helper, for the WSDL download and all service calls.
+	// soap only calls its request instance as a function.
+	if (transportRequest) {
+		clientOptions.request = transportRequest.send as unknown as soap.IOptions['request'];
+	}
+	if (Object.keys(transport.headers).length > 0 || config.httpHeaders) {
+		clientOptions.wsdl_headers = { ...config.httpHeaders, ...transport.headers };
+	}
+	return clientOptions;
+}
+
+/**
+ * Load and parse the WSDL of the configured source
+ */
+async function loadWsdl(config: IClientConfig, options: soap.IOptions): Promise<soap.WSDL> {
+	if (config.wsdlSource === 'bundled') {
+		// Only the SOAP endpoint has to be reachable
+		return await createBundledWsdl(options);
+	}
+	if (config.wsdlSource === 'local') {
+		if (!config.localWsdlPath) {
+			throw new Error('Local WSDL File Path is required when WSDL Source is "Local WSDL File"');
+		}
+		return (await soap.createClientAsync(config.localWsdlPath, options)).wsdl;
+	}
+	return (await soap.createClientAsync(config.wsdlUrl, options)).wsdl;
+}
+
+/**
+ * Create a typed SOAP client for a parsed WSDL
+ */
+function createClient(
+	wsdl: soap.WSDL,
+	config: IClientConfig,
+	transport: ITransportSettings,
+	options: soap.IOptions,
+): ICANIASClient {
+	// The bundled WSDL only has a placeholder address
+	const endpoint =
+		config.wsdlSource === 'bundled'
+			? config.endpoint || getEndpointFromWsdlUrl(config.wsdlUrl)
+			: options.endpoint;
+	const client = new soap.Client(wsdl, endpoint, options) as ICANIASClient;
+
+	// Service calls do not see wsdl_headers, they get the same headers through the security hook
+	if (hasTransportSettings(transport)) {
+		client.setSecurity(new TransportSecurity(transport));
+	}
+
+	// Custom HTTP and SOAP headers go on every service call of this client
+	for (const [name, value] of Object.entries(config.httpHeaders ?? {})) {
+		client.addHttpHeader(name, value);
+	}
+	for (const soapHeader of config.soapHeaders ?? []) {
+		client.addSoapHeader(soapHeader);
+	}
+	return client;
+}
+
+/**
+ * Get the parsed WSDL of a configuration, downloading (and caching) it when needed
+ */
+async function getWsdl(
+	config: IClientConfig,
+	options: soap.IOptions,
+	ttl: number,
+): Promise<soap.WSDL> {
+	if (ttl <= 0) {
+		return await loadWsdl(config, options);
+	}
+
+	const key = getClientCacheKey(config);
+	const now = Date.now();
+	for (const [cachedKey, cachedEntry] of cache) {
+		if (cachedEntry.expiresAt <= now) {
+			cache.delete(cachedKey);
+		}
+	}
+
+	const cached = cache.get(key);
+	if (cached && cached.expiresAt > now) {
+		return await cached.wsdl;
+	}
+
+	const entry: ICachedWsdl = { wsdl: loadWsdl(config, options), expiresAt: now + ttl };
+	cache.set(key, entry);
+
+	try {
+		return await entry.wsdl;
+	} catch (error) {
+		// Never keep a failed WSDL download around
+		if (cache.get(key) === entry) {
+			cache.delete(key);
+		}
+		throw error;
+	}
+}
+
+/**
+ * Get a typed SOAP client. The parsed WSDL is cached; the client is new on every call and sends
+ * through the helpers passed here, so concurrent executions never share helpers.
+ * @param helpers Request helpers of the calling node, used when TLS options or a proxy are set
+ * @param ttl WSDL cache lifetime in milliseconds; 0 disables caching
+ */
+export async function getClient(
+	config: IClientConfig,
+	helpers: IRequestHelpers,
+	ttl: number = DEFAULT_CLIENT_CACHE_TTL_MS,
+): Promise<ICANIASClient> {
+	const transport = getTransportSettings(config);
+	const transportRequest = needsRequestHelper(transport)
+		? new TransportRequest(transport, helpers)
+		: undefined;
+	const options = buildClientOptions(config, transport, transportRequest);
+	return createClient(await getWsdl(config, options, ttl), config, transport, options);
+}
+
+/**
+ * Drop the cached WSDL for a configuration, or all cached WSDLs
+ */
+export function invalidateClient(config?: IClientConfig): void {
+	if (config) {
+		cache.delete(getClientCacheKey(config));
+	} else {
+		cache.clear();
+	}
+}
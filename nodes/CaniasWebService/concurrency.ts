@@ -0,0 +1,38 @@
+/**
+ * Concurrency utilities for CANIAS Web Service
+ * Runs item work in parallel with a bounded number of workers
+ */
+
+/**
+ * Map over items with at most `limit` calls in flight.
+ * Results keep the input order. After the first failure no new items are started
+ * and that failure is rethrown once the running calls have settled.
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	let failure: { error: unknown } | undefined;
+
+	const run = async () => {
+		while (!failure && next < items.length) {
+			const index = next++;
+			try {
+				results[index] = await worker(items[index], index);
+			} catch (error) {
+				failure ??= { error };
+			}
+		}
+	};
+
+	const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run);
+	await Promise.all(workers);
+
+	if (failure) {
+		throw failure.error;
+	}
+	return results;
+}
@@ -0,0 +1,97 @@
+/**
+ * Credential test for CANIAS Web Service
+ * Performs a real login/logout instead of only fetching the WSDL
+ */
+
+import type {
+	ICredentialsDecrypted,
+	ICredentialTestFunctions,
+	INodeCredentialTestResult,
+} from 'n8n-workflow';
+import type { ICANIASClient, ISOAPError, WsdlSource } from './types';
+import { getClient } from './clientCache';
+import { parseEnvironmentProfiles } from './environments';
+import { parseServiceCatalog } from './schemaCatalog';
+import { extractSOAPFault } from './errorHandling';
+import { closeSession, resolveLoginRequest } from './session';
+import { getTransportConfig } from './transport';
+
+/**
+ * Create the SOAP client, login with all credential fields and logout again
+ */
+export async function caniasWebServiceApiTest(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const credentials = credential.data ?? {};
+	const wsdlSource = (credentials.wsdlSource as WsdlSource) || 'remote';
+
+	// Profiles and the catalog are only used at runtime, but a broken definition should not pass the test
+	try {
+		parseEnvironmentProfiles(credentials);
+		parseServiceCatalog(credentials);
+	} catch (error) {
+		return {
+			status: 'Error',
+			message: (error as Error).message,
+		};
+	}
+
+	let client: ICANIASClient;
+	try {
+		// Never cached, a credential test must see the current WSDL
+		client = await getClient(
+			{
+				wsdlUrl: credentials.wsdlUrl as string,
+				wsdlSource,
+				localWsdlPath: (credentials.localWsdlPath as string) || undefined,
+				...getTransportConfig(credentials),
+			},
+			this.helpers,
+			0,
+		);
+	} catch (error) {
+		const location =
+			wsdlSource === 'local'
+				? credentials.localWsdlPath
+				: wsdlSource === 'bundled'
+					? 'bundled WSDL'
+					: credentials.wsdlUrl;
+		return {
+			status: 'Error',
+			message: `WSDL unreachable (${location}): ${(error as Error).message}`,
+		};
+	}
+
+	let sessionId: string | undefined;
+	try {
+		const [res] = await client.loginAsync(resolveLoginRequest(credentials));
+		sessionId = typeof res === 'string' ? res : res?.loginReturn;
+	} catch (error) {
+		const fault = extractSOAPFault(error as ISOAPError);
+		return {
+			status: 'Error',
+			message: fault
+				? `Login rejected by CANIAS: ${fault.faultstring || fault.faultcode}`
+				: `Login request failed: ${(error as Error).message}`,
+		};
+	}
+
+	if (!sessionId || String(sessionId).trim() === '') {
+		return {
+			status: 'Error',
+			message: 'Login returned an empty session ID. Check client, DB name, app server and user.',
+		};
+	}
+
+	try {
+		await closeSession(client, sessionId);
+	} catch {
+		// Login worked, a failed logout does not make the credential invalid
+	}
+
+	return {
+		status: 'OK',
+		message: 'Login and logout against CANIAS succeeded',
+	};
+}
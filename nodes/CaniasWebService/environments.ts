@@ -0,0 +1,135 @@
+/**
+ * Environment profiles for CANIAS Web Service
+ * Resolves a named profile (e.g. DEV, TEST, PROD) of the credential into the effective credential values
+ */
+
+import type {
+	ICredentialDataDecryptedObject,
+	ILoadOptionsFunctions,
+	INodePropertyOptions,
+} from 'n8n-workflow';
+import type { IEnvironmentProfile } from './types';
+
+/**
+ * Credential fields a profile may override. The password is not one of them: the profiles field is
+ * plain JSON, so an environment with another password needs a credential of its own.
+ */
+const PROFILE_FIELDS: Array<keyof IEnvironmentProfile> = [
+	'wsdlUrl',
+	'wsdlSource',
+	'localWsdlPath',
+	'endpoint',
+	'client',
+	'language',
+	'dbName',
+	'dbServer',
+	'appServer',
+	'username',
+];
+
+const WSDL_SOURCES = ['remote', 'bundled', 'local'];
+
+/**
+ * Parse and validate the Environment Profiles field of a credential
+ */
+export function parseEnvironmentProfiles(
+	credentials: ICredentialDataDecryptedObject,
+): Record<string, IEnvironmentProfile> {
+	let profiles: unknown = credentials.environments;
+	if (profiles === undefined || profiles === null || profiles === '') {
+		return {};
+	}
+	if (typeof profiles === 'string') {
+		try {
+			profiles = JSON.parse(profiles);
+		} catch (error) {
+			throw new Error(`Environment Profiles is not valid JSON: ${(error as Error).message}`);
+		}
+	}
+	if (typeof profiles !== 'object' || profiles === null || Array.isArray(profiles)) {
+		throw new Error('Environment Profiles must be a JSON object keyed by environment name');
+	}
+
+	for (const [name, profile] of Object.entries(profiles)) {
+		if (typeof profile !== 'object' || profile === null || Array.isArray(profile)) {
+			throw new Error(`Environment "${name}" must be an object`);
+		}
+		for (const [field, value] of Object.entries(profile)) {
+			if (field === 'password') {
+				throw new Error(
+					`Environment "${name}" must not contain a password, Environment Profiles are not masked. Use a separate credential for an environment with another password.`,
+				);
+			}
+			if (!PROFILE_FIELDS.includes(field as keyof IEnvironmentProfile)) {
+				throw new Error(
+					`Environment "${name}" has unknown field "${field}" (allowed: ${PROFILE_FIELDS.join(', ')})`,
+				);
+			}
+			if (typeof value !== 'string') {
+				throw new Error(`Field "${field}" of environment "${name}" must be a string`);
+			}
+		}
+		if (profile.wsdlSource !== undefined && !WSDL_SOURCES.includes(profile.wsdlSource)) {
+			throw new Error(
+				`Environment "${name}" has invalid wsdlSource "${profile.wsdlSource}" (allowed: ${WSDL_SOURCES.join(', ')})`,
+			);
+		}
+	}
+
+	return profiles as Record<string, IEnvironmentProfile>;
+}
+
+/**
+ * Credential values with the selected profile applied; an empty name selects the credential itself
+ */
+export function applyEnvironment(
+	credentials: ICredentialDataDecryptedObject,
+	environment: string | undefined,
+): ICredentialDataDecryptedObject {
+	const name = environment?.trim();
+	if (!name) {
+		return credentials;
+	}
+
+	const profiles = parseEnvironmentProfiles(credentials);
+	const profile = profiles[name];
+	if (!profile) {
+		const available = Object.keys(profiles);
+		throw new Error(
+			`Unknown environment "${name}". ${
+				available.length > 0
+					? `Available environments: ${available.join(', ')}`
+					: 'The credential defines no environment profiles'
+			}`,
+		);
+	}
+
+	const resolved: ICredentialDataDecryptedObject = { ...credentials };
+	for (const field of PROFILE_FIELDS) {
+		if (profile[field] !== undefined && profile[field] !== '') {
+			resolved[field] = profile[field];
+		}
+	}
+	return resolved;
+}
+
+/**
+ * Load the environment profiles of the selected credential for the Environment parameter
+ */
+export async function getEnvironments(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const credentials = await this.getCredentials('caniasWebServiceApi');
+	const profiles = parseEnvironmentProfiles(credentials);
+
+	return [
+		{
+			name: 'Credential Default',
+			value: '',
+			description: 'Use the values of the credential itself',
+		},
+		...Object.keys(profiles)
+			.sort((a, b) => a.localeCompare(b))
+			.map((name) => ({ name, value: name })),
+	];
+}
@@ -4,7 +4,7 @@
  */
 
 import { NodeOperationError, type INode } from 'n8n-workflow';
-import type { ISOAPError, ISOAPFault } from './types';
+import type { ErrorCategory, ISOAPError, ISOAPErrorPayload, ISOAPFault } from './types';
 
 /**
  * Extract SOAP fault information from error
@@ -30,6 +30,24 @@ export function extractSOAPFault(error: ISOAPError): ISOAPFault | null {
 	return null;
 }
 
+/**
+ * Check whether an error is a SOAP fault caused by an invalid or expired session
+ */
+export function isSessionExpiredError(error: unknown): boolean {
+	const fault = extractSOAPFault(error as ISOAPError);
+	if (!fault) {
+		return false;
+	}
+
+	const text = `${fault.faultcode ?? ''} ${fault.faultstring ?? ''}`;
+	return (
+		/session|oturum/i.test(text) &&
+		/invalid|expired|not found|timed? ?out|closed|ge[cç]ersiz|zaman a[sş][ıi]m[ıi]|sona erdi|bulunamad[ıi]/i.test(
+			text,
+		)
+	);
+}
+
 /**
  * Create a user-friendly error message from SOAP fault
  */
@@ -75,15 +93,20 @@ export function getErrorDescription(fault: ISOAPFault, error: ISOAPError): strin
 }
 
 /**
- * Enhanced error handler for SOAP operations
+ * Build a NodeOperationError for a failed SOAP operation
  * Provides detailed error messages with SOAP fault information
  */
-export function handleSOAPError(
+export function createSOAPError(
 	error: unknown,
 	node: INode,
 	itemIndex: number,
 	operation: string,
-): never {
+): NodeOperationError {
+	// Errors already prepared by the node (e.g. result parsing) are passed through unchanged
+	if (error instanceof NodeOperationError) {
+		return error;
+	}
+
 	const soapError = error as ISOAPError;
 	const fault = extractSOAPFault(soapError);
 
@@ -92,7 +115,7 @@ export function handleSOAPError(
 		const message = formatSOAPFaultMessage(fault);
 		const description = getErrorDescription(fault, soapError);
 
-		throw new NodeOperationError(node, message, {
+		return new NodeOperationError(node, message, {
 			itemIndex,
 			description,
 			message: `Failed to execute ${operation} operation: ${message}`,
@@ -113,7 +136,7 @@ export function handleSOAPError(
 		};
 
 		const statusMessage = statusMessages[soapError.statusCode] || 'HTTP Error';
-		throw new NodeOperationError(
+		return new NodeOperationError(
 			node,
 			`${statusMessage} (${soapError.statusCode})`,
 			{
@@ -126,7 +149,7 @@ export function handleSOAPError(
 
 	// Timeout errors
 	if (soapError.message?.includes('timeout') || soapError.message?.includes('ETIMEDOUT')) {
-		throw new NodeOperationError(
+		return new NodeOperationError(
 			node,
 			'Request timeout - CANIAS server did not respond in time',
 			{
@@ -143,7 +166,7 @@ export function handleSOAPError(
 		soapError.message?.includes('ENOTFOUND') ||
 		soapError.message?.includes('ECONNRESET')
 	) {
-		throw new NodeOperationError(
+		return new NodeOperationError(
 			node,
 			'Cannot connect to CANIAS server',
 			{
@@ -160,7 +183,7 @@ export function handleSOAPError(
 		soapError.message?.includes('certificate') ||
 		soapError.message?.includes('SSL')
 	) {
-		throw new NodeOperationError(
+		return new NodeOperationError(
 			node,
 			'SSL/TLS certificate error',
 			{
@@ -173,12 +196,82 @@ export function handleSOAPError(
 
 	// Generic error fallback
 	const errorMessage = soapError.message || 'Unknown error occurred';
-	throw new NodeOperationError(node, errorMessage, {
+	return new NodeOperationError(node, errorMessage, {
 		itemIndex,
 		message: `Failed to execute ${operation} operation: ${errorMessage}`,
 	});
 }
 
+/**
+ * Enhanced error handler for SOAP operations
+ * Throws a NodeOperationError with detailed SOAP fault information
+ */
+export function handleSOAPError(
+	error: unknown,
+	node: INode,
+	itemIndex: number,
+	operation: string,
+): never {
+	throw createSOAPError(error, node, itemIndex, operation);
+}
+
+/**
+ * Classify an error (same rules as createSOAPError)
+ */
+export function categorizeError(error: unknown): ErrorCategory {
+	const soapError = error as ISOAPError;
+
+	if (extractSOAPFault(soapError)) {
+		return isSessionExpiredError(error) ? 'sessionExpired' : 'soapFault';
+	}
+	if (soapError?.statusCode) {
+		return [502, 503, 504].includes(soapError.statusCode) ? 'unavailable' : 'http';
+	}
+
+	const message = soapError?.message ?? '';
+	if (message.includes('timeout') || message.includes('ETIMEDOUT')) {
+		return 'timeout';
+	}
+	if (
+		message.includes('ECONNREFUSED') ||
+		message.includes('ENOTFOUND') ||
+		message.includes('ECONNRESET')
+	) {
+		return 'connection';
+	}
+	if (message.includes('CERT_') || message.includes('certificate') || message.includes('SSL')) {
+		return 'ssl';
+	}
+	return 'other';
+}
+
+/**
+ * Build the structured error payload emitted as an item when "Continue On Fail" is enabled
+ */
+export function buildErrorPayload(
+	error: unknown,
+	node: INode,
+	itemIndex: number,
+	operation: string,
+): ISOAPErrorPayload {
+	const soapError = error as ISOAPError;
+	const fault = error instanceof NodeOperationError ? null : extractSOAPFault(soapError);
+	const nodeError = createSOAPError(error, node, itemIndex, operation);
+
+	return {
+		message: nodeError.message,
+		description: nodeError.description ?? null,
+		category: categorizeError(error),
+		faultcode: fault?.faultcode ?? null,
+		faultstring: fault?.faultstring ?? null,
+		faultactor: fault?.faultactor ?? null,
+		detail: fault?.detail ?? null,
+		httpStatus: soapError?.statusCode ?? null,
+		operation,
+		itemIndex,
+	};
+}
+
 /**
  * Validate session ID format
  */
@@ -0,0 +1,282 @@
+/**
+ * Record and replay for CANIAS Web Service
+ * Stores SOAP responses per normalized request and serves them again without network access
+ */
+
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { redactEnvelope } from './trace';
+import type { ICANIASClient, IFixtureEntry, IFixtureFile } from './types';
+
+/**
+ * Client methods that are recorded and replayed
+ */
+const RECORDED_METHODS: Record<string, string> = {
+	loginAsync: 'login',
+	listIASServicesAsync: 'listIASServices',
+	callIASServiceAsync: 'callIASService',
+	logoutAsync: 'logout',
+};
+
+/**
+ * Workflow static data key of the recorded responses
+ */
+const STATIC_DATA_KEY = 'caniasFixtures';
+
+/**
+ * Session ID returned by replayed logins; a valid ID, so manual session handling accepts it
+ */
+export const REPLAYED_SESSION_ID = 'REPLAYED_SESSION';
+
+type SoapCallResult = [unknown, string, Record<string, unknown>];
+
+/**
+ * Error thrown in replay mode when no response was recorded for a request
+ */
+export class FixtureMissError extends Error {
+	constructor(
+		readonly operation: string,
+		readonly request: Record<string, unknown>,
+	) {
+		super(`No recorded response for ${operation} ${JSON.stringify(request)}`);
+		this.name = 'FixtureMissError';
+	}
+}
+
+/**
+ * Where a fixture store reads and writes its recordings
+ */
+export interface IFixtureStorage {
+	read(): Promise<IFixtureFile | undefined>;
+	write(file: IFixtureFile): Promise<void>;
+}
+
+/**
+ * Keep recordings in the workflow static data of the node
+ */
+export function staticDataStorage(staticData: IDataObject): IFixtureStorage {
+	return {
+		read: async () => staticData[STATIC_DATA_KEY] as IFixtureFile | undefined,
+		write: async (file) => {
+			staticData[STATIC_DATA_KEY] = file as unknown as IDataObject;
+		},
+	};
+}
+
+/**
+ * Whether a read failed because the file does not exist (n8n wraps the fs error)
+ */
+function isMissingFile(error: unknown): boolean {
+	const { code, cause } = (error ?? {}) as { code?: unknown; cause?: { code?: unknown } };
+	return code === 'ENOENT' || cause?.code === 'ENOENT';
+}
+
+/**
+ * Keep recordings in a JSON file on the n8n server. The file helpers of n8n enforce the
+ * allowed file paths of the instance.
+ */
+export function fileStorage(
+	helpers: Pick<
+		IExecuteFunctions['helpers'],
+		'createReadStream' | 'binaryToBuffer' | 'writeContentToFile'
+	>,
+	path: string,
+): IFixtureStorage {
+	return {
+		read: async () => {
+			let content: string;
+			try {
+				content = (await helpers.binaryToBuffer(await helpers.createReadStream(path))).toString(
+					'utf8',
+				);
+			} catch (error) {
+				// A missing file is an empty recording
+				if (isMissingFile(error)) {
+					return undefined;
+				}
+				throw error;
+			}
+			try {
+				return JSON.parse(content) as IFixtureFile;
+			} catch (error) {
+				throw new Error(`Fixture file ${path} is not valid JSON: ${(error as Error).message}`);
+			}
+		},
+		write: async (file) => {
+			await helpers.writeContentToFile(path, `${JSON.stringify(file, null, 2)}\n`, 'w');
+		},
+	};
+}
+
+/**
+ * JSON with sorted object keys, so equal args always give the same text
+ */
+function canonicalize(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(canonicalize);
+	}
+	if (typeof value === 'object' && value !== null) {
+		return Object.fromEntries(
+			Object.keys(value)
+				.sort()
+				.map((key) => [key, canonicalize((value as Record<string, unknown>)[key])]),
+		);
+	}
+	return value;
+}
+
+function normalizeArgs(args: unknown): string {
+	const text = String(args ?? '').trim();
+	if (/^[[{]/.test(text)) {
+		try {
+			return JSON.stringify(canonicalize(JSON.parse(text)));
+		} catch {
+			// Not JSON, compared as text
+		}
+	}
+	return text;
+}
+
+/**
+ * Request as it is matched: session IDs and the password change between runs and are left out
+ */
+export function getFixtureRequest(
+	operation: string,
+	params: Record<string, unknown>,
+): Record<string, unknown> {
+	switch (operation) {
+		case 'login':
+			return {
+				client: params.p_strClient,
+				language: params.p_strLanguage,
+				dbName: params.p_strDBName,
+				dbServer: params.p_strDBServer,
+				appServer: params.p_strAppServer,
+				username: params.p_strUserName,
+			};
+		case 'callIASService':
+			return {
+				serviceid: params.serviceid,
+				args: normalizeArgs(params.args),
+				returntype: params.returntype,
+				permanent: Boolean(params.permanent),
+			};
+		default:
+			return {};
+	}
+}
+
+function getFixtureKey(operation: string, request: Record<string, unknown>): string {
+	return JSON.stringify([operation, canonicalize(request)]);
+}
+
+/**
+ * Recorded responses of one execution; loaded once, saved once at the end of a recording
+ */
+export class FixtureStore {
+	private readonly entries = new Map<string, IFixtureEntry>();
+
+	/** Session IDs returned by recorded logins, removed from every recorded raw response */
+	private readonly secrets = new Set<string>();
+
+	private changed = false;
+
+	constructor(private readonly storage: IFixtureStorage) {}
+
+	async load(): Promise<void> {
+		const file = await this.storage.read();
+		for (const entry of file?.entries ?? []) {
+			this.entries.set(getFixtureKey(entry.operation, entry.request), entry);
+		}
+	}
+
+	/**
+	 * Write the recordings back (only when something was recorded)
+	 */
+	async save(): Promise<void> {
+		if (!this.changed) {
+			return;
+		}
+		await this.storage.write({ version: 1, entries: [...this.entries.values()] });
+		this.changed = false;
+	}
+
+	/**
+	 * Recorded response of a request; throws FixtureMissError when there is none
+	 */
+	find(operation: string, params: Record<string, unknown>): SoapCallResult {
+		const request = getFixtureRequest(operation, params);
+		const entry = this.entries.get(getFixtureKey(operation, request));
+		if (!entry) {
+			throw new FixtureMissError(operation, request);
+		}
+		const { result, rawResponse, soapHeaders } = entry.response;
+		return [result, rawResponse, soapHeaders];
+	}
+
+	/**
+	 * Store the response of a request; a later recording of the same request replaces it.
+	 * Session IDs are redacted like in the debug trace, replayed logins return REPLAYED_SESSION_ID.
+	 */
+	record(
+		operation: string,
+		params: Record<string, unknown>,
+		[result, rawResponse, soapHeaders]: SoapCallResult,
+	): void {
+		const request = getFixtureRequest(operation, params);
+		let recordedResult = result;
+		if (operation === 'login' && typeof result === 'object' && result !== null) {
+			const { loginReturn } = result as { loginReturn?: unknown };
+			if (typeof loginReturn === 'string' && loginReturn !== '') {
+				this.secrets.add(loginReturn);
+			}
+			recordedResult = { ...result, loginReturn: REPLAYED_SESSION_ID };
+		}
+		this.entries.set(getFixtureKey(operation, request), {
+			operation,
+			request,
+			response: {
+				result: recordedResult,
+				rawResponse:
+					typeof rawResponse === 'string' ? redactEnvelope(rawResponse, this.secrets) : rawResponse,
+				soapHeaders: soapHeaders ?? {},
+			},
+			recordedAt: new Date().toISOString(),
+		});
+		this.changed = true;
+	}
+
+	/**
+	 * Client that answers every operation from the recordings without network access
+	 */
+	createReplayClient(): ICANIASClient {
+		// Nothing is sent, so listeners (e.g. of the debug trace) are accepted and never called
+		const client: Record<string, unknown> = {
+			on: () => client,
+			removeListener: () => client,
+		};
+		for (const [method, operation] of Object.entries(RECORDED_METHODS)) {
+			client[method] = async (params: Record<string, unknown>) => this.find(operation, params);
+		}
+		return client as unknown as ICANIASClient;
+	}
+
+	/**
+	 * Client that calls CANIAS and records every successful response
+	 */
+	createRecordingClient(client: ICANIASClient): ICANIASClient {
+		return new Proxy(client, {
+			get: (target, property, receiver) => {
+				const operation = typeof property === 'string' ? RECORDED_METHODS[property] : undefined;
+				const value = Reflect.get(target, property, receiver);
+				if (!operation || typeof value !== 'function') {
+					return value;
+				}
+				return async (params: Record<string, unknown>, ...rest: unknown[]) => {
+					const response = (await value.call(target, params, ...rest)) as SoapCallResult;
+					this.record(operation, params, response);
+					return response;
+				};
+			},
+		});
+	}
+}
@@ -0,0 +1,73 @@
+/**
+ * Custom header utilities for CANIAS Web Service
+ * Builds SOAP header blocks and validates custom HTTP headers
+ */
+
+import type { ISoapHeader } from './types';
+import { parseXml } from './xmlParser';
+
+/**
+ * Element names, optionally prefixed (e.g. wsa:To)
+ */
+const XML_NAME_PATTERN = /^[A-Za-z_][\w.-]*(:[A-Za-z_][\w.-]*)?$/;
+
+/**
+ * HTTP header field names (RFC 7230 token)
+ */
+const HTTP_HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+}
+
+/**
+ * Build a SOAP header block from a key/value pair, e.g. <wsa:To xmlns:wsa="...">value</wsa:To>
+ */
+export function toSoapHeaderXml(header: ISoapHeader): string {
+	const name = header.name.trim();
+	if (!XML_NAME_PATTERN.test(name)) {
+		throw new Error(`Invalid SOAP header name "${header.name}"`);
+	}
+
+	let xmlns = '';
+	if (header.namespace) {
+		const prefix = name.includes(':') ? name.split(':')[0] : undefined;
+		xmlns = ` ${prefix ? `xmlns:${prefix}` : 'xmlns'}="${escapeXml(header.namespace)}"`;
+	}
+
+	return `<${name}${xmlns}>${escapeXml(header.value ?? '')}</${name}>`;
+}
+
+/**
+ * Check that a raw SOAP header block is well-formed XML, so it cannot break the envelope
+ */
+export function validateSoapHeaderXml(xml: string): string {
+	const trimmed = xml.trim();
+	let blocks: number;
+	try {
+		// Wrapped, so several header blocks in one field are allowed
+		blocks = parseXml(`<header>${trimmed}</header>`).children.length;
+	} catch (error) {
+		throw new Error(`SOAP header XML is not well-formed: ${(error as Error).message}`);
+	}
+	if (blocks === 0) {
+		throw new Error('SOAP header XML must contain at least one element');
+	}
+	return trimmed;
+}
+
+/**
+ * Check a custom HTTP header name
+ */
+export function validateHttpHeaderName(name: string): string {
+	const trimmed = name.trim();
+	if (!HTTP_HEADER_NAME_PATTERN.test(trimmed)) {
+		throw new Error(`Invalid HTTP header name "${name}"`);
+	}
+	return trimmed;
+}
@@ -0,0 +1,85 @@
+/**
+ * List search methods for CANIAS Web Service
+ * Populates the Service ID resource locator from listIASServices
+ */
+
+import type { ILoadOptionsFunctions, INodeListSearchResult } from 'n8n-workflow';
+import type { WsdlSource } from './types';
+import { getClient } from './clientCache';
+import { applyEnvironment } from './environments';
+import { parseListServicesResponse } from './responseParsing';
+import { closeSession, openSession, resolveLoginRequest } from './session';
+import { getSessionFingerprint } from './sessionPool';
+import { getTransportConfig } from './transport';
+
+/**
+ * How long a loaded service list is reused, so the editor does not login on every keystroke
+ */
+const SERVICE_LIST_TTL_MS = 60 * 1000;
+
+const serviceListCache = new Map<string, { services: Promise<string[]>; expiresAt: number }>();
+
+/**
+ * Search the IAS services available to the selected credential
+ */
+export async function searchServices(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	const credentials = applyEnvironment(
+		await this.getCredentials('caniasWebServiceApi'),
+		this.getNodeParameter('environment', '') as string,
+	);
+	const wsdlUrl = credentials.wsdlUrl as string;
+	const endpoint =
+		(this.getNodeParameter('endpoint', '') as string) ||
+		(credentials.endpoint as string | undefined) ||
+		undefined;
+	const loginRequest = resolveLoginRequest(credentials);
+
+	const key = getSessionFingerprint(wsdlUrl, loginRequest, endpoint);
+	const now = Date.now();
+	let cached = serviceListCache.get(key);
+	if (!cached || cached.expiresAt <= now) {
+		cached = {
+			services: (async () => {
+				const client = await getClient(
+					{
+						wsdlUrl,
+						wsdlSource: (credentials.wsdlSource as WsdlSource) || undefined,
+						localWsdlPath: (credentials.localWsdlPath as string) || undefined,
+						endpoint,
+						...getTransportConfig(credentials),
+					},
+					this.helpers,
+				);
+				const sessionId = await openSession(client, loginRequest);
+				try {
+					const [res] = await client.listIASServicesAsync({ p_strSessionId: sessionId });
+					return parseListServicesResponse(res).services;
+				} finally {
+					await closeSession(client, sessionId).catch(() => undefined);
+				}
+			})(),
+			expiresAt: now + SERVICE_LIST_TTL_MS,
+		};
+		serviceListCache.set(key, cached);
+	}
+
+	let services: string[];
+	try {
+		services = await cached.services;
+	} catch (error) {
+		// Do not keep a failed lookup around
+		serviceListCache.delete(key);
+		throw error;
+	}
+
+	const search = filter?.trim().toLowerCase();
+	return {
+		results: [...services]
+			.filter((service) => !search || service.toLowerCase().includes(search))
+			.sort((a, b) => a.localeCompare(b))
+			.map((service) => ({ name: service, value: service })),
+	};
+}
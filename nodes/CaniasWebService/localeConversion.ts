@@ -0,0 +1,289 @@
+/**
+ * Locale conversion for CANIAS Web Service
+ * Converts locale formatted dates, decimals and flags in results to ISO dates, numbers and booleans,
+ * and formats JSON args the way the session locale expects them
+ */
+
+import { formatDate, parseDate } from './argsBuilder';
+import type {
+	CaniasLocale,
+	ILocaleConversionOptions,
+	ILocaleFormat,
+	LocaleValueType,
+} from './types';
+
+/**
+ * Formats of the supported locales
+ */
+export const LOCALE_FORMATS: Record<CaniasLocale, ILocaleFormat> = {
+	tr: {
+		dateFormat: 'dd.MM.yyyy',
+		decimalSeparator: ',',
+		thousandsSeparator: '.',
+		booleanTrue: 'E',
+		booleanFalse: 'H',
+	},
+	de: {
+		dateFormat: 'dd.MM.yyyy',
+		decimalSeparator: ',',
+		thousandsSeparator: '.',
+		booleanTrue: 'J',
+		booleanFalse: 'N',
+	},
+	en: {
+		dateFormat: 'MM/dd/yyyy',
+		decimalSeparator: '.',
+		thousandsSeparator: ',',
+		booleanTrue: 'Y',
+		booleanFalse: 'N',
+	},
+};
+
+/**
+ * Locales of the CANIAS language codes; other languages use the Turkish formats
+ */
+const LANGUAGE_LOCALES: Record<string, CaniasLocale> = {
+	T: 'tr',
+	D: 'de',
+	E: 'en',
+};
+
+/**
+ * ISO dates as accepted in args (2025-12-31, 2025-12-31T10:30:00, with optional zone)
+ */
+const ISO_DATE_PATTERN =
+	/^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const ISO_DATE_FORMAT = 'yyyy-MM-dd';
+
+const ISO_DATE_TIME_FORMAT = 'yyyy-MM-ddTHH:mm:ss';
+
+/**
+ * Locale of a credential language code (e.g. T -> tr)
+ */
+export function getLocaleFromLanguage(language: unknown): CaniasLocale {
+	const code = typeof language === 'string' ? language.trim().toUpperCase() : '';
+	return LANGUAGE_LOCALES[code] ?? 'tr';
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Parse a date in the locale date format, optionally followed by a time (HH:mm or HH:mm:ss)
+ */
+function parseLocaleDate(
+	value: string,
+	dateFormat: string,
+): { date: Date; hasTime: boolean } | undefined {
+	const tokens: string[] = [];
+	const pattern = dateFormat
+		.split(/(yyyy|MM|dd)/)
+		.map((part) => {
+			if (part === 'yyyy' || part === 'MM' || part === 'dd') {
+				tokens.push(part);
+				return part === 'yyyy' ? '(\\d{4})' : '(\\d{1,2})';
+			}
+			return escapeRegExp(part);
+		})
+		.join('');
+	const match = new RegExp(`^${pattern}(?:[ T](\\d{1,2}):(\\d{2})(?::(\\d{2}))?)?$`).exec(value);
+	if (!match || tokens.length !== 3) {
+		return undefined;
+	}
+
+	const parts: Record<string, number> = {};
+	tokens.forEach((token, index) => (parts[token] = Number(match[index + 1])));
+	const [hours = '0', minutes = '0', seconds = '0'] = match.slice(4);
+	const date = new Date(parts.yyyy, parts.MM - 1, parts.dd, +hours, +minutes, +seconds);
+
+	// Reject dates that roll over, e.g. 31.02.2025
+	if (date.getDate() !== parts.dd || date.getMonth() !== parts.MM - 1) {
+		return undefined;
+	}
+	return { date, hasTime: match[4] !== undefined };
+}
+
+/**
+ * Parse a locale formatted number. Without strict, plain integers are numbers as well;
+ * with strict (auto-detection) only values with a decimal separator or thousands grouping are,
+ * and values with leading zeros (codes like 00123) never are.
+ */
+function parseLocaleNumber(
+	value: string,
+	format: ILocaleFormat,
+	strict: boolean,
+): number | undefined {
+	const decimal = escapeRegExp(format.decimalSeparator);
+	// A thousands separator equal to the decimal separator (e.g. after an override) is ignored
+	const thousands =
+		format.thousandsSeparator !== format.decimalSeparator ? format.thousandsSeparator : '';
+	const patterns = [new RegExp(`^[-+]?\\d+${decimal}\\d+$`)];
+	if (thousands) {
+		patterns.push(
+			new RegExp(`^[-+]?\\d{1,3}(?:${escapeRegExp(thousands)}\\d{3})+(?:${decimal}\\d+)?$`),
+		);
+	}
+	if (!strict) {
+		patterns.push(/^[-+]?\d+$/);
+	}
+
+	if (!patterns.some((pattern) => pattern.test(value)) || (strict && /^[-+]?0\d/.test(value))) {
+		return undefined;
+	}
+	const normalized = (thousands ? value.split(thousands).join('') : value)
+		.split(format.decimalSeparator)
+		.join('.');
+	return Number(normalized);
+}
+
+function parseLocaleBoolean(value: string, format: ILocaleFormat): boolean | undefined {
+	const upper = value.toUpperCase();
+	if (upper === format.booleanTrue.toUpperCase()) {
+		return true;
+	}
+	if (upper === format.booleanFalse.toUpperCase()) {
+		return false;
+	}
+	return undefined;
+}
+
+/**
+ * Convert a result string; values that do not match the type are kept as they are
+ */
+function fromLocaleValue(
+	value: string,
+	type: LocaleValueType | 'auto',
+	format: ILocaleFormat,
+): unknown {
+	const text = value.trim();
+	if (type === 'string') {
+		return value;
+	}
+	if (text === '') {
+		// An empty typed field has no value; auto-detection leaves empty strings alone
+		return type === 'auto' ? value : null;
+	}
+
+	if (type === 'date' || type === 'dateTime' || type === 'auto') {
+		const parsed = parseLocaleDate(text, format.dateFormat);
+		if (parsed) {
+			const dateOnly = type === 'date' || (type === 'auto' && !parsed.hasTime);
+			return formatDate(parsed.date, dateOnly ? ISO_DATE_FORMAT : ISO_DATE_TIME_FORMAT);
+		}
+	}
+	if (type === 'number' || type === 'auto') {
+		const number = parseLocaleNumber(text, format, type === 'auto');
+		if (number !== undefined) {
+			return number;
+		}
+	}
+	// A lone E, J or Y is as likely a code as a flag, so only field rules turn flags into booleans
+	if (type === 'boolean') {
+		const flag = parseLocaleBoolean(text, format);
+		if (flag !== undefined) {
+			return flag;
+		}
+	}
+	return value;
+}
+
+/**
+ * Format an args value for the locale; values that do not match the type are kept as they are
+ */
+function toLocaleValue(
+	value: unknown,
+	type: LocaleValueType | 'auto',
+	format: ILocaleFormat,
+): unknown {
+	if (type === 'string') {
+		return value;
+	}
+
+	if (typeof value === 'boolean' && (type === 'boolean' || type === 'auto')) {
+		return value ? format.booleanTrue : format.booleanFalse;
+	}
+
+	if (type === 'number' || type === 'auto') {
+		// Integers are the same in every locale and stay JSON numbers unless a rule asks for text
+		if (typeof value === 'number' && (type === 'number' || !Number.isInteger(value))) {
+			return String(value).replace('.', format.decimalSeparator);
+		}
+		if (typeof value === 'string' && type === 'number' && /^[-+]?\d+(\.\d+)?$/.test(value.trim())) {
+			return value.trim().replace('.', format.decimalSeparator);
+		}
+	}
+
+	if (
+		typeof value === 'string' &&
+		(type === 'date' || type === 'dateTime' || type === 'auto') &&
+		ISO_DATE_PATTERN.test(value.trim())
+	) {
+		const date = parseDate(value.trim());
+		if (date) {
+			const withTime = type === 'dateTime' || (type === 'auto' && value.trim().length > 10);
+			return formatDate(date, withTime ? `${format.dateFormat} HH:mm:ss` : format.dateFormat);
+		}
+	}
+
+	return value;
+}
+
+/**
+ * Walk a value and convert its leaves; the type of a leaf comes from the rule of its field name
+ */
+function convertTree(
+	value: unknown,
+	options: ILocaleConversionOptions,
+	convert: (leaf: unknown, type: LocaleValueType | 'auto') => unknown,
+	auto: boolean,
+): unknown {
+	const rules = new Map(options.rules.map(({ field, type }) => [field.trim().toLowerCase(), type]));
+
+	const walk = (current: unknown, field: string | undefined): unknown => {
+		if (Array.isArray(current)) {
+			// Items of an array belong to the field of the array
+			return current.map((item) => walk(item, field));
+		}
+		if (typeof current === 'object' && current !== null) {
+			return Object.fromEntries(
+				Object.entries(current).map(([key, child]) => [key, walk(child, key)]),
+			);
+		}
+		const type = field === undefined ? undefined : rules.get(field.toLowerCase());
+		if (type) {
+			return convert(current, type);
+		}
+		return auto ? convert(current, 'auto') : current;
+	};
+
+	return walk(value, undefined);
+}
+
+/**
+ * Convert locale formatted dates, decimals and flags in a parsed result
+ */
+export function convertResultLocale(value: unknown, options: ILocaleConversionOptions): unknown {
+	if (options.resultConversion === 'off') {
+		return value;
+	}
+	return convertTree(
+		value,
+		options,
+		(leaf, type) => (typeof leaf === 'string' ? fromLocaleValue(leaf, type, options.format) : leaf),
+		options.resultConversion === 'auto',
+	);
+}
+
+/**
+ * Format numbers, booleans and ISO dates of JSON args for the locale
+ */
+export function formatArgsLocale(value: unknown, options: ILocaleConversionOptions): unknown {
+	return convertTree(
+		value,
+		options,
+		(leaf, type) => toLocaleValue(leaf, type, options.format),
+		true,
+	);
+}
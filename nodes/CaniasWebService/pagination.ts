@@ -0,0 +1,150 @@
+/**
+ * Pagination for CANIAS Web Service
+ * Injects the page number or offset into the args and collects rows page by page until the last page
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import { getByPath } from './tableParsing';
+import type { IPaginatedResult, IPaginationOptions } from './types';
+
+export const DEFAULT_MAX_PAGES = 100;
+
+/**
+ * A fetched page: its parsed result and the rows found in it
+ */
+export interface IPage {
+	result: unknown;
+	rows: IDataObject[];
+}
+
+/**
+ * Error thrown when the pages cannot be injected or collected
+ */
+export class PaginationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'PaginationError';
+	}
+}
+
+function isPlainObject(value: unknown): value is IDataObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Set a value by dot path, creating missing objects on the way
+ */
+function setByPath(target: IDataObject, path: string, value: unknown): void {
+	const parts = path.split('.').filter((part) => part !== '');
+	if (parts.length === 0) {
+		throw new PaginationError('The pagination JSON path is empty');
+	}
+
+	let current = target;
+	for (const part of parts.slice(0, -1)) {
+		if (current[part] === undefined || current[part] === null) {
+			current[part] = {};
+		}
+		const next = current[part];
+		if (!isPlainObject(next)) {
+			throw new PaginationError(`"${part}" of JSON path "${path}" is not an object in the args`);
+		}
+		current = next;
+	}
+	current[parts[parts.length - 1]] = value as IDataObject[string];
+}
+
+/**
+ * Page number or offset of a page (pageIndex counts from 0)
+ */
+export function getPageValue(options: IPaginationOptions, pageIndex: number): number {
+	return options.parameter === 'offset'
+		? pageIndex * options.pageSize
+		: (options.firstPage ?? 1) + pageIndex;
+}
+
+/**
+ * Args of a page
+ */
+export function injectPage(args: string, options: IPaginationOptions, pageIndex: number): string {
+	const value = getPageValue(options, pageIndex);
+
+	if (options.injection === 'jsonPath') {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(args.trim() === '' ? '{}' : args);
+		} catch (error) {
+			throw new PaginationError(
+				`Pagination with a JSON path needs JSON args: ${(error as Error).message}`,
+			);
+		}
+		if (!isPlainObject(parsed)) {
+			throw new PaginationError('Pagination with a JSON path needs a JSON object as args');
+		}
+		setByPath(parsed, options.jsonPath ?? '', value);
+		if (options.pageSizePath) {
+			setByPath(parsed, options.pageSizePath, options.pageSize);
+		}
+		return JSON.stringify(parsed);
+	}
+
+	const placeholder = options.placeholder ?? '';
+	if (!placeholder || !args.includes(placeholder)) {
+		throw new PaginationError(`The args do not contain the page placeholder "${placeholder}"`);
+	}
+	let injected = args.split(placeholder).join(String(value));
+	if (options.pageSizePlaceholder) {
+		injected = injected.split(options.pageSizePlaceholder).join(String(options.pageSize));
+	}
+	return injected;
+}
+
+function getTotalCount(result: unknown, path: string): number {
+	const value = getByPath(result, path);
+	const count = typeof value === 'number' ? value : Number(String(value ?? '').trim());
+	if (value === undefined || value === null || value === '' || !Number.isFinite(count)) {
+		throw new PaginationError(`Total count field "${path}" is missing or not a number`);
+	}
+	return count;
+}
+
+/**
+ * Fetch pages one after another until the stop condition is met; an empty page always stops.
+ * Fails instead of returning partial data when Max Pages is reached first.
+ */
+export async function collectPages(
+	options: IPaginationOptions,
+	fetchPage: (pageIndex: number) => Promise<IPage>,
+): Promise<IPaginatedResult> {
+	const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+	const rows: IDataObject[] = [];
+	let totalCount: number | undefined;
+
+	for (let pageIndex = 0; pageIndex < maxPages; pageIndex++) {
+		const page = await fetchPage(pageIndex);
+		for (const row of page.rows) {
+			rows.push(row);
+		}
+
+		// The total is read from the first page only
+		if (options.stopCondition === 'totalCount' && totalCount === undefined) {
+			totalCount = getTotalCount(page.result, options.totalCountPath ?? '');
+		}
+
+		const isLastPage =
+			page.rows.length === 0 ||
+			(options.stopCondition === 'partialPage' && page.rows.length < options.pageSize) ||
+			(totalCount !== undefined && rows.length >= totalCount);
+		if (isLastPage) {
+			return {
+				rows,
+				pageCount: pageIndex + 1,
+				...(totalCount === undefined ? {} : { totalCount }),
+			};
+		}
+	}
+
+	throw new PaginationError(
+		`The last page was not reached within ${maxPages} pages (${rows.length} rows so far)`,
+	);
+}
@@ -0,0 +1,287 @@
+/**
+ * Response parsing utilities for CANIAS Web Service
+ * Unwraps Axis 1.4 rpc/encoded responses into clean node output
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import type {
+	ICallIASServiceResponse,
+	IListIASServicesResponse,
+	ILoginResponse,
+	IParsedListServicesResult,
+	IParsedLoginResult,
+	IParsedLogoutResult,
+	IServiceListOptions,
+	IXmlParseOptions,
+	OutputParsing,
+} from './types';
+import { parseXml } from './xmlParser';
+import type { IXmlElement } from './xmlParser';
+
+/**
+ * Parse login response (Axis 1.4 rpc/encoded format)
+ */
+export function parseLoginResponse(res: ILoginResponse): IParsedLoginResult {
+	if (res && typeof res === 'object' && 'loginReturn' in res && res.loginReturn) {
+		return { sessionId: res.loginReturn };
+	}
+	// Fallback for direct string response
+	if (typeof res === 'string') {
+		return { sessionId: res as any };
+	}
+	// If no session ID found, something is wrong
+	throw new Error('Login failed: No session ID returned from server');
+}
+
+/**
+ * Normalize a listIASServicesReturn value to an array of service names
+ * Axis returns a plain string when only one service is available.
+ */
+export function toServiceList(services: string[] | string | null | undefined): string[] {
+	if (Array.isArray(services)) {
+		return services;
+	}
+	return typeof services === 'string' && services !== '' ? [services] : [];
+}
+
+/**
+ * Parse list services response (Axis 1.4 rpc/encoded format)
+ */
+export function parseListServicesResponse(
+	res: IListIASServicesResponse,
+): IParsedListServicesResult {
+	if (res && typeof res === 'object' && 'listIASServicesReturn' in res) {
+		return { services: toServiceList(res.listIASServicesReturn) };
+	}
+	// Fallback for direct array response
+	if (Array.isArray(res)) {
+		return { services: res };
+	}
+	return { services: [] };
+}
+
+/**
+ * Build a matcher for a service name filter
+ * Wildcard patterns support * and ?, regex patterns use JavaScript syntax.
+ */
+function createServiceMatcher(options: IServiceListOptions): (service: string) => boolean {
+	const pattern = options.filter?.trim();
+	if (!pattern) {
+		return () => true;
+	}
+
+	const flags = options.caseSensitive ? '' : 'i';
+	if (options.filterMode === 'regex') {
+		const regex = new RegExp(pattern, flags);
+		return (service) => regex.test(service);
+	}
+	if (options.filterMode === 'wildcard') {
+		const source = pattern
+			.split('')
+			.map((char) =>
+				char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+			)
+			.join('');
+		const regex = new RegExp(`^${source}$`, flags);
+		return (service) => regex.test(service);
+	}
+
+	const needle = options.caseSensitive ? pattern : pattern.toLowerCase();
+	return (service) => (options.caseSensitive ? service : service.toLowerCase()).includes(needle);
+}
+
+/**
+ * Filter, deduplicate and sort a service list
+ */
+export function filterServiceList(services: string[], options: IServiceListOptions = {}): string[] {
+	const matches = createServiceMatcher(options);
+	let result = services.filter(matches);
+
+	if (options.deduplicate) {
+		result = [...new Set(result)];
+	}
+	if (options.sort === 'asc') {
+		result = [...result].sort((a, b) => a.localeCompare(b));
+	} else if (options.sort === 'desc') {
+		result = [...result].sort((a, b) => b.localeCompare(a));
+	}
+
+	return result;
+}
+
+/**
+ * Parse call service response (Axis 1.4 rpc/encoded format)
+ */
+export function parseCallServiceResponse(res: ICallIASServiceResponse): any {
+	if (res && typeof res === 'object' && 'callIASServiceReturn' in res) {
+		return res.callIASServiceReturn;
+	}
+	// Return as-is for direct responses
+	return res;
+}
+
+/**
+ * Parse logout response
+ */
+export function parseLogoutResponse(res: any): IParsedLogoutResult {
+	return {
+		success: true,
+		response: res ?? null,
+	};
+}
+
+// ============================================================================
+// RESULT PARSING (callIASServiceReturn payloads)
+// ============================================================================
+
+/**
+ * Maximum length of the raw payload snippet shown in parse errors
+ */
+const SNIPPET_LENGTH = 300;
+
+/**
+ * Error thrown when a service result cannot be parsed in the requested format
+ */
+export class ResultParseError extends Error {
+	constructor(
+		readonly format: 'JSON' | 'XML' | 'Base64',
+		readonly snippet: string,
+		cause: string,
+	) {
+		super(`Could not parse service result as ${format}: ${cause}`);
+		this.name = 'ResultParseError';
+	}
+}
+
+function getSnippet(raw: string): string {
+	return raw.length > SNIPPET_LENGTH ? `${raw.slice(0, SNIPPET_LENGTH)}…` : raw;
+}
+
+/**
+ * Parse a JSON payload
+ */
+export function parseJsonResult(raw: string): unknown {
+	try {
+		return JSON.parse(raw);
+	} catch (error) {
+		throw new ResultParseError('JSON', getSnippet(raw), (error as Error).message);
+	}
+}
+
+/**
+ * Convert a parsed element into its JSON representation
+ */
+function convertXmlElement(element: IXmlElement, options: IXmlParseOptions): IDataObject | string {
+	const result: IDataObject = {};
+	const forceArray = new Set(options.forceArray ?? []);
+
+	if (options.attributeMode !== 'ignore') {
+		const entries = Object.entries(element.attributes);
+		if (entries.length > 0) {
+			if (options.attributeMode === 'group') {
+				result[options.attributeKey ?? '$'] = element.attributes;
+			} else {
+				for (const [name, value] of entries) {
+					result[`${options.attributePrefix ?? '@'}${name}`] = value;
+				}
+			}
+		}
+	}
+
+	for (const child of element.children) {
+		const value = convertXmlElement(child, options);
+		const existing = result[child.name];
+		if (existing === undefined) {
+			result[child.name] =
+				options.arrayMode === 'always' || forceArray.has(child.name) ? [value] : value;
+		} else if (Array.isArray(existing)) {
+			(existing as unknown[]).push(value);
+		} else {
+			result[child.name] = [existing, value];
+		}
+	}
+
+	const text = element.text.trim();
+	if (Object.keys(result).length === 0) {
+		return text;
+	}
+	if (text !== '') {
+		result[options.textKey ?? '#text'] = text;
+	}
+	return result;
+}
+
+/**
+ * Parse an XML payload into structured JSON
+ */
+export function parseXmlResult(raw: string, options: IXmlParseOptions = {}): IDataObject {
+	let root: IXmlElement;
+	try {
+		root = parseXml(raw);
+	} catch (error) {
+		throw new ResultParseError('XML', getSnippet(raw), (error as Error).message);
+	}
+
+	return { [root.name]: convertXmlElement(root, options) };
+}
+
+/**
+ * Decode a base64 payload, optionally wrapped in a data: URI (whose MIME type is returned)
+ */
+export function parseBase64Result(raw: string): { data: Buffer; mimeType?: string } {
+	const trimmed = raw.trim();
+	const dataUri = /^data:([^;,]+)?(?:;[^;,]+)*;base64,/i.exec(trimmed);
+	const payload = (dataUri ? trimmed.slice(dataUri[0].length) : trimmed).replace(/\s+/g, '');
+
+	// Unpadded and URL-safe base64 are accepted as well
+	if (payload === '' || payload.length % 4 === 1 || !/^[A-Za-z0-9+/_-]+={0,2}$/.test(payload)) {
+		throw new ResultParseError('Base64', getSnippet(raw), 'not a valid base64 string');
+	}
+
+	return { data: Buffer.from(payload, 'base64'), mimeType: dataUri?.[1] };
+}
+
+/**
+ * Parse a callIASServiceReturn payload according to the selected output parsing mode.
+ * Auto mode follows the declared return type and otherwise sniffs the payload.
+ */
+export function parseServiceResult(
+	value: unknown,
+	mode: OutputParsing,
+	returntype: string,
+	xmlOptions: IXmlParseOptions = {},
+): unknown {
+	if (mode === 'none' || typeof value !== 'string') {
+		return value;
+	}
+
+	if (mode === 'json') {
+		return parseJsonResult(value);
+	}
+
+	if (mode === 'xml') {
+		return parseXmlResult(value, xmlOptions);
+	}
+
+	const declared = returntype.trim().toLowerCase();
+	if (declared === 'json') {
+		return parseJsonResult(value);
+	}
+	if (declared === 'xml') {
+		return parseXmlResult(value, xmlOptions);
+	}
+
+	// Undeclared format - only parse what clearly looks like JSON or XML
+	const trimmed = value.trim();
+	try {
+		if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+			return parseJsonResult(trimmed);
+		}
+		if (trimmed.startsWith('<')) {
+			return parseXmlResult(trimmed, xmlOptions);
+		}
+	} catch {
+		// Plain string that happens to start with a bracket
+	}
+	return value;
+}
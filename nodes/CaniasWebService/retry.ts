@@ -0,0 +1,47 @@
+/**
+ * Retry utilities for CANIAS Web Service
+ * Retries transient failures (timeouts, connection errors, 502/503/504) with exponential backoff
+ */
+
+import { sleep } from 'n8n-workflow';
+import type { ErrorCategory, IRetryOptions } from './types';
+import { categorizeError } from './errorHandling';
+
+/**
+ * Error categories retried when none are selected explicitly
+ */
+export const DEFAULT_RETRY_CATEGORIES: ErrorCategory[] = ['timeout', 'connection', 'unavailable'];
+
+/**
+ * Delay before the next attempt (attempt is 1-based)
+ * Exponential backoff capped at maxDelay, with optional full jitter
+ */
+export function getRetryDelay(attempt: number, options: IRetryOptions): number {
+	const delay = Math.min(options.maxDelay, options.baseDelay * 2 ** (attempt - 1));
+	return options.jitter ? Math.round(Math.random() * delay) : delay;
+}
+
+/**
+ * Check whether an error should be retried
+ */
+export function isRetryableError(error: unknown, options: IRetryOptions): boolean {
+	const categories = options.categories.length > 0 ? options.categories : DEFAULT_RETRY_CATEGORIES;
+	return categories.includes(categorizeError(error));
+}
+
+/**
+ * Run a call, retrying transient failures
+ * Without options the call is made exactly once.
+ */
+export async function withRetry<T>(call: () => Promise<T>, options?: IRetryOptions): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await call();
+		} catch (error) {
+			if (!options || attempt >= options.maxAttempts || !isRetryableError(error, options)) {
+				throw error;
+			}
+			await sleep(getRetryDelay(attempt, options));
+		}
+	}
+}
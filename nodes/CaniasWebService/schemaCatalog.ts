@@ -0,0 +1,320 @@
+/**
+ * Service schema catalog for CANIAS Web Service
+ * Validates callIASService args and coerces/validates parsed results with a JSON Schema subset
+ */
+
+import type { ICredentialDataDecryptedObject } from 'n8n-workflow';
+import { parseDate } from './argsBuilder';
+import type { ISchema, ISchemaViolation, IServiceCatalogEntry, SchemaType } from './types';
+
+/**
+ * JSON Schema keywords that are not supported; rejected so a schema never passes unchecked parts
+ */
+const UNSUPPORTED_KEYWORDS = [
+	'$ref',
+	'allOf',
+	'anyOf',
+	'oneOf',
+	'not',
+	'if',
+	'then',
+	'else',
+	'patternProperties',
+	'dependencies',
+	'dependentRequired',
+	'dependentSchemas',
+];
+
+/**
+ * String formats that are checked; other formats are rejected instead of being ignored
+ */
+const SUPPORTED_FORMATS = ['date', 'date-time'];
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+
+/**
+ * Error thrown when args or a result do not match the catalog schema
+ */
+export class SchemaValidationError extends Error {
+	constructor(
+		readonly target: 'args' | 'result',
+		readonly violations: ISchemaViolation[],
+	) {
+		const [first] = violations;
+		const subject = target === 'args' ? 'Service args do' : 'Service result does';
+		const more = violations.length > 1 ? ` (and ${violations.length - 1} more)` : '';
+		super(`${subject} not match the schema: ${first.path} ${first.message}${more}`);
+		this.name = 'SchemaValidationError';
+	}
+}
+
+/**
+ * Reject unsupported keywords anywhere in a schema
+ */
+export function assertSupportedSchema(schema: unknown, path: string): void {
+	if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+		throw new Error(`${path} must be a JSON Schema object`);
+	}
+
+	const keyword = UNSUPPORTED_KEYWORDS.find((name) => name in schema);
+	if (keyword) {
+		throw new Error(`${path} uses the unsupported keyword "${keyword}"`);
+	}
+
+	const { properties, items, additionalProperties, pattern, format } = schema as ISchema;
+	if (format !== undefined && !SUPPORTED_FORMATS.includes(format)) {
+		throw new Error(
+			`${path}.format "${String(format)}" is not supported (allowed: ${SUPPORTED_FORMATS.join(', ')})`,
+		);
+	}
+	if (pattern !== undefined) {
+		try {
+			new RegExp(pattern);
+		} catch (error) {
+			throw new Error(
+				`${path}.pattern is not a valid regular expression: ${(error as Error).message}`,
+			);
+		}
+	}
+	for (const [name, propertySchema] of Object.entries(properties ?? {})) {
+		assertSupportedSchema(propertySchema, `${path}.properties.${name}`);
+	}
+	if (items !== undefined) {
+		assertSupportedSchema(items, `${path}.items`);
+	}
+	if (typeof additionalProperties === 'object') {
+		assertSupportedSchema(additionalProperties, `${path}.additionalProperties`);
+	}
+}
+
+/**
+ * Parse and check the Service Catalog field of a credential
+ */
+export function parseServiceCatalog(
+	credentials: ICredentialDataDecryptedObject,
+): Record<string, IServiceCatalogEntry> {
+	let catalog: unknown = credentials.serviceCatalog;
+	if (catalog === undefined || catalog === null || catalog === '') {
+		return {};
+	}
+	if (typeof catalog === 'string') {
+		try {
+			catalog = JSON.parse(catalog);
+		} catch (error) {
+			throw new Error(`Service Catalog is not valid JSON: ${(error as Error).message}`);
+		}
+	}
+	if (typeof catalog !== 'object' || catalog === null || Array.isArray(catalog)) {
+		throw new Error('Service Catalog must be a JSON object keyed by service ID');
+	}
+
+	for (const [serviceId, entry] of Object.entries(catalog)) {
+		if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+			throw new Error(`Service Catalog entry "${serviceId}" must be an object`);
+		}
+		const { args, result } = entry as IServiceCatalogEntry;
+		if (args !== undefined) {
+			assertSupportedSchema(args, `${serviceId}.args`);
+		}
+		if (result !== undefined) {
+			assertSupportedSchema(result, `${serviceId}.result`);
+		}
+	}
+
+	return catalog as Record<string, IServiceCatalogEntry>;
+}
+
+/**
+ * Catalog entry of a service (service IDs are matched case-insensitively)
+ */
+export function getCatalogEntry(
+	catalog: Record<string, IServiceCatalogEntry>,
+	serviceId: string,
+): IServiceCatalogEntry | undefined {
+	if (catalog[serviceId]) {
+		return catalog[serviceId];
+	}
+	const upper = serviceId.toUpperCase();
+	const key = Object.keys(catalog).find((name) => name.toUpperCase() === upper);
+	return key === undefined ? undefined : catalog[key];
+}
+
+function getTypes(schema: ISchema): SchemaType[] {
+	if (schema.type === undefined) {
+		return [];
+	}
+	return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function getValueType(value: unknown): SchemaType {
+	if (value === null || value === undefined) {
+		return 'null';
+	}
+	if (Array.isArray(value)) {
+		return 'array';
+	}
+	if (typeof value === 'number') {
+		return Number.isInteger(value) ? 'integer' : 'number';
+	}
+	return typeof value as SchemaType;
+}
+
+function matchesType(value: unknown, type: SchemaType): boolean {
+	const valueType = getValueType(value);
+	return valueType === type || (type === 'number' && valueType === 'integer');
+}
+
+/**
+ * Convert a value towards its schema: numeric and boolean strings, empty strings to null,
+ * numbers to strings and single values to one-element arrays (XML tables with one row)
+ */
+export function coerceToSchema(value: unknown, schema: ISchema): unknown {
+	const types = getTypes(schema);
+
+	if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+		if (typeof value === 'string') {
+			const trimmed = value.trim();
+			if (trimmed === '' && types.includes('null')) {
+				return null;
+			}
+			if ((types.includes('number') || types.includes('integer')) && NUMBER_PATTERN.test(trimmed)) {
+				return Number(trimmed);
+			}
+			if (
+				types.includes('boolean') &&
+				['true', 'false', '1', '0'].includes(trimmed.toLowerCase())
+			) {
+				return ['true', '1'].includes(trimmed.toLowerCase());
+			}
+		}
+		if ((typeof value === 'number' || typeof value === 'boolean') && types.includes('string')) {
+			return String(value);
+		}
+		if (types.includes('array') && value !== null && value !== undefined) {
+			return [schema.items ? coerceToSchema(value, schema.items) : value];
+		}
+		return value;
+	}
+
+	if (Array.isArray(value)) {
+		return schema.items
+			? value.map((item) => coerceToSchema(item, schema.items as ISchema))
+			: value;
+	}
+	if (typeof value === 'object' && value !== null) {
+		const coerced: Record<string, unknown> = {};
+		for (const [key, propertyValue] of Object.entries(value)) {
+			const propertySchema =
+				schema.properties?.[key] ??
+				(typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+			coerced[key] = propertySchema ? coerceToSchema(propertyValue, propertySchema) : propertyValue;
+		}
+		return coerced;
+	}
+	return value;
+}
+
+/**
+ * Validate a value and collect all violations with their paths
+ */
+export function validateSchema(
+	value: unknown,
+	schema: ISchema,
+	path: string,
+	violations: ISchemaViolation[] = [],
+): ISchemaViolation[] {
+	const types = getTypes(schema);
+	if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+		violations.push({
+			path,
+			message: `must be ${types.join(' or ')} (got ${getValueType(value)})`,
+		});
+		return violations;
+	}
+
+	if (schema.enum && !schema.enum.some((option) => option === value)) {
+		violations.push({
+			path,
+			message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`,
+		});
+	}
+
+	if (typeof value === 'number') {
+		if (schema.minimum !== undefined && value < schema.minimum) {
+			violations.push({ path, message: `must be >= ${schema.minimum}` });
+		}
+		if (schema.maximum !== undefined && value > schema.maximum) {
+			violations.push({ path, message: `must be <= ${schema.maximum}` });
+		}
+	}
+
+	if (typeof value === 'string') {
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			violations.push({ path, message: `must have at least ${schema.minLength} characters` });
+		}
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+			violations.push({ path, message: `must have at most ${schema.maxLength} characters` });
+		}
+		if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+			violations.push({ path, message: `must match the pattern ${schema.pattern}` });
+		}
+		if ((schema.format === 'date' || schema.format === 'date-time') && !parseDate(value)) {
+			violations.push({ path, message: `must be a valid ${schema.format}` });
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			violations.push({ path, message: `must have at least ${schema.minItems} items` });
+		}
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+			violations.push({ path, message: `must have at most ${schema.maxItems} items` });
+		}
+		if (schema.items) {
+			value.forEach((item, index) =>
+				validateSchema(item, schema.items as ISchema, `${path}[${index}]`, violations),
+			);
+		}
+	} else if (typeof value === 'object' && value !== null) {
+		const record = value as Record<string, unknown>;
+		for (const name of schema.required ?? []) {
+			if (record[name] === undefined) {
+				violations.push({ path: `${path}.${name}`, message: 'is required' });
+			}
+		}
+		for (const [key, propertyValue] of Object.entries(record)) {
+			const propertySchema = schema.properties?.[key];
+			if (propertySchema) {
+				validateSchema(propertyValue, propertySchema, `${path}.${key}`, violations);
+			} else if (schema.additionalProperties === false) {
+				violations.push({ path: `${path}.${key}`, message: 'is not allowed' });
+			} else if (typeof schema.additionalProperties === 'object') {
+				validateSchema(propertyValue, schema.additionalProperties, `${path}.${key}`, violations);
+			}
+		}
+	}
+
+	return violations;
+}
+
+/**
+ * Validate args; throws SchemaValidationError listing every violation
+ */
+export function assertValidArgs(args: unknown, schema: ISchema): void {
+	const violations = validateSchema(args, schema, 'args');
+	if (violations.length > 0) {
+		throw new SchemaValidationError('args', violations);
+	}
+}
+
+/**
+ * Coerce a parsed result to its schema and validate it; throws SchemaValidationError on violations
+ */
+export function applyResultSchema(result: unknown, schema: ISchema): unknown {
+	const coerced = coerceToSchema(result, schema);
+	const violations = validateSchema(coerced, schema, 'result');
+	if (violations.length > 0) {
+		throw new SchemaValidationError('result', violations);
+	}
+	return coerced;
+}
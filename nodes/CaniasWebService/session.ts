@@ -0,0 +1,195 @@
+/**
+ * Session utilities for CANIAS Web Service
+ * Resolves login parameters and opens/closes IAS sessions
+ */
+
+import type { ICredentialDataDecryptedObject } from 'n8n-workflow';
+import type {
+	ErrorCategory,
+	ICANIASClient,
+	ILoginOverrides,
+	ILoginRequest,
+	IPooledSession,
+	ISessionPoolOptions,
+} from './types';
+import { categorizeError, isSessionExpiredError } from './errorHandling';
+import { parseLoginResponse } from './responseParsing';
+import { sessionPool } from './sessionPool';
+
+/**
+ * Error categories that say something about the health of a session; validation and business
+ * errors do not count against a pooled session
+ */
+const SESSION_FAILURE_CATEGORIES: ErrorCategory[] = [
+	'sessionExpired',
+	'connection',
+	'timeout',
+	'unavailable',
+];
+
+/**
+ * Use override if provided, otherwise use credential default
+ */
+function pickValue(override: string | undefined, fallback: unknown): string {
+	return override !== undefined && override.trim() !== '' ? override : (fallback as string);
+}
+
+/**
+ * Build login request parameters from credentials and optional overrides
+ */
+export function resolveLoginRequest(
+	credentials: ICredentialDataDecryptedObject,
+	overrides: ILoginOverrides = {},
+): ILoginRequest {
+	return {
+		p_strClient: pickValue(overrides.client, credentials.client),
+		p_strLanguage: pickValue(overrides.language, credentials.language),
+		p_strDBName: pickValue(overrides.dbName, credentials.dbName),
+		p_strDBServer: pickValue(overrides.dbServer, credentials.dbServer),
+		p_strAppServer: pickValue(overrides.appServer, credentials.appServer),
+		p_strUserName: pickValue(overrides.username, credentials.username),
+		p_strPassword: pickValue(overrides.password, credentials.password),
+	};
+}
+
+/**
+ * Login and return the new session ID
+ */
+export async function openSession(client: ICANIASClient, request: ILoginRequest): Promise<string> {
+	const [res] = await client.loginAsync(request);
+	return parseLoginResponse(res).sessionId;
+}
+
+/**
+ * Logout a session
+ */
+export async function closeSession(client: ICANIASClient, sessionId: string): Promise<void> {
+	await client.logoutAsync({ p_strSessionId: sessionId });
+}
+
+/**
+ * Session owned by the node for the duration of one execution.
+ * Either logged in directly (automatic) or borrowed from the process-wide pool (pooled).
+ */
+export class ManagedSession {
+	private current?: Promise<string>;
+
+	private pooled?: IPooledSession;
+
+	private failed = false;
+
+	private renewal?: { staleSessionId: string; promise: Promise<string> };
+
+	constructor(
+		private readonly client: ICANIASClient,
+		readonly loginRequest: ILoginRequest,
+		private readonly pool?: { key: string; options: ISessionPoolOptions },
+	) {}
+
+	/**
+	 * Get the session ID, logging in on first use
+	 */
+	async getSessionId(): Promise<string> {
+		if (!this.current) {
+			const opening = this.open();
+			this.current = opening;
+			// A failed login is not cached, the next call (or retry) logs in again
+			opening.catch(() => {
+				if (this.current === opening) {
+					this.current = undefined;
+				}
+			});
+		}
+		return await this.current;
+	}
+
+	/**
+	 * Run a call with the session, logging in again once if the server reports it as invalid or expired
+	 */
+	async run<T>(call: (sessionId: string) => Promise<T>): Promise<T> {
+		const sessionId = await this.getSessionId();
+		try {
+			return await call(sessionId);
+		} catch (error) {
+			if (!isSessionExpiredError(error)) {
+				throw error;
+			}
+			return await call(await this.renew(sessionId));
+		}
+	}
+
+	/**
+	 * Record that work done with this session failed (used for pool health tracking).
+	 * Only session and connection errors are recorded.
+	 */
+	markFailed(error: unknown): void {
+		if (SESSION_FAILURE_CATEGORIES.includes(categorizeError(error))) {
+			this.failed = true;
+		}
+	}
+
+	/**
+	 * Logout, or hand the session back to the pool
+	 */
+	async close(): Promise<void> {
+		const sessionId = await this.current?.catch(() => undefined);
+		if (sessionId === undefined) {
+			return;
+		}
+
+		if (this.pool) {
+			if (this.pooled) {
+				await sessionPool.release(this.pooled, !this.failed);
+			}
+			return;
+		}
+
+		try {
+			await closeSession(this.client, sessionId);
+		} catch {
+			// Logout is best effort - the original error (if any) is more useful
+		}
+	}
+
+	private async renew(staleSessionId: string): Promise<string> {
+		// Concurrent callers that hit the same stale session share one re-login
+		if (this.renewal?.staleSessionId !== staleSessionId) {
+			this.renewal = { staleSessionId, promise: this.replace(staleSessionId) };
+		}
+		return await this.renewal.promise;
+	}
+
+	private async replace(staleSessionId: string): Promise<string> {
+		// Another caller may already have replaced the stale session
+		const current = await this.current?.catch(() => undefined);
+		if (current !== undefined && current !== staleSessionId) {
+			return current;
+		}
+
+		if (this.pooled) {
+			await sessionPool.discard(this.pooled);
+			this.pooled = undefined;
+		} else {
+			try {
+				await closeSession(this.client, staleSessionId);
+			} catch {
+				// Session is already gone on the server
+			}
+		}
+
+		this.current = this.open();
+		return await this.current;
+	}
+
+	private async open(): Promise<string> {
+		if (!this.pool) {
+			return await openSession(this.client, this.loginRequest);
+		}
+
+		this.pooled = await sessionPool.acquire(this.pool.key, this.pool.options, async () => {
+			const sessionId = await openSession(this.client, this.loginRequest);
+			return { sessionId, close: async () => await closeSession(this.client, sessionId) };
+		});
+		return this.pooled.sessionId;
+	}
+}
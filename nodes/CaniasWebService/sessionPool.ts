@@ -0,0 +1,192 @@
+/**
+ * Process-wide session pool for CANIAS Web Service
+ * Keeps logged-in sessions alive across executions to save login round trips and license seats
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { sleep } from 'n8n-workflow';
+import type { ILoginRequest, IPooledSession, ISessionPoolOptions } from './types';
+
+/**
+ * Consecutive failures after which a pooled session is considered unhealthy and discarded
+ */
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+/**
+ * Poll interval while waiting for a pooled session to be released
+ */
+const WAIT_INTERVAL_MS = 100;
+
+/**
+ * Interval of the background sweep that logs out idle sessions
+ */
+const SWEEP_INTERVAL_MS = 30000;
+
+/**
+ * Per-process key for the fingerprint HMAC, so pool keys cannot be used to guess passwords
+ */
+const FINGERPRINT_KEY = randomBytes(32);
+
+/**
+ * Build the pool key for a credential/login combination and the endpoint it is used against.
+ * The password is part of the key (as a keyed hash), so a wrong password never gets a pooled session.
+ */
+export function getSessionFingerprint(
+	wsdlUrl: string,
+	request: ILoginRequest,
+	endpoint = '',
+): string {
+	return createHmac('sha256', FINGERPRINT_KEY)
+		.update(
+			JSON.stringify([
+				wsdlUrl,
+				endpoint,
+				request.p_strClient,
+				request.p_strLanguage,
+				request.p_strDBName,
+				request.p_strDBServer,
+				request.p_strAppServer,
+				request.p_strUserName,
+				request.p_strPassword,
+			]),
+		)
+		.digest('hex');
+}
+
+export class SessionPool {
+	private readonly sessions = new Map<string, IPooledSession[]>();
+
+	/** Logins in flight per key, counted against maxSessions */
+	private readonly pending = new Map<string, number>();
+
+	private sweeping = false;
+
+	/**
+	 * Get a free session for the key, logging in when the pool has room.
+	 * Waits for a release when maxSessions sessions are already in use.
+	 */
+	async acquire(
+		key: string,
+		options: ISessionPoolOptions,
+		open: () => Promise<Pick<IPooledSession, 'sessionId' | 'close'>>,
+	): Promise<IPooledSession> {
+		const deadline = Date.now() + options.acquireTimeout;
+
+		for (;;) {
+			await this.evictIdle();
+
+			const list = this.sessions.get(key) ?? [];
+			const free = list.find((session) => !session.inUse);
+			if (free) {
+				free.inUse = true;
+				free.lastUsedAt = Date.now();
+				return free;
+			}
+
+			const pending = this.pending.get(key) ?? 0;
+			if (list.length + pending < options.maxSessions) {
+				this.pending.set(key, pending + 1);
+				try {
+					const opened = await open();
+					const session: IPooledSession = {
+						...opened,
+						key,
+						createdAt: Date.now(),
+						lastUsedAt: Date.now(),
+						idleTimeout: options.idleTimeout,
+						inUse: true,
+						failureCount: 0,
+					};
+					this.sessions.set(key, [...(this.sessions.get(key) ?? []), session]);
+					this.ensureSweep();
+					return session;
+				} finally {
+					this.pending.set(key, (this.pending.get(key) ?? 1) - 1);
+				}
+			}
+
+			if (Date.now() >= deadline) {
+				throw new Error(
+					`Timed out waiting for a free CANIAS session (max ${options.maxSessions} sessions per credential)`,
+				);
+			}
+			await sleep(WAIT_INTERVAL_MS);
+		}
+	}
+
+	/**
+	 * Return a session to the pool and record whether the work done with it succeeded.
+	 * Sessions that keep failing are discarded.
+	 */
+	async release(session: IPooledSession, succeeded = true): Promise<void> {
+		session.inUse = false;
+		session.lastUsedAt = Date.now();
+		session.failureCount = succeeded ? 0 : session.failureCount + 1;
+
+		if (session.failureCount >= MAX_CONSECUTIVE_FAILURES) {
+			await this.discard(session);
+		}
+		await this.evictIdle();
+	}
+
+	/**
+	 * Remove a session that the server no longer accepts (or that is unhealthy) and logout best effort
+	 */
+	async discard(session: IPooledSession): Promise<void> {
+		const current = this.sessions.get(session.key) ?? [];
+		if (!current.includes(session)) {
+			return;
+		}
+
+		const list = current.filter((entry) => entry !== session);
+		if (list.length > 0) {
+			this.sessions.set(session.key, list);
+		} else {
+			this.sessions.delete(session.key);
+		}
+
+		try {
+			await session.close();
+		} catch {
+			// Session may already be gone on the server
+		}
+	}
+
+	/**
+	 * Start the background sweep unless it is running. It stops when the pool is empty,
+	 * so an idle pool does not keep the process busy.
+	 */
+	private ensureSweep(): void {
+		if (this.sweeping) {
+			return;
+		}
+		this.sweeping = true;
+		void this.sweep();
+	}
+
+	private async sweep(): Promise<void> {
+		try {
+			while (this.sessions.size > 0) {
+				await sleep(SWEEP_INTERVAL_MS);
+				await this.evictIdle();
+			}
+		} finally {
+			this.sweeping = false;
+		}
+	}
+
+	private async evictIdle(): Promise<void> {
+		const now = Date.now();
+		const expired = [...this.sessions.values()]
+			.flat()
+			.filter((session) => !session.inUse && now - session.lastUsedAt >= session.idleTimeout);
+		for (const session of expired) {
+			await this.discard(session);
+		}
+	}
+}
+
+/**
+ * Shared pool for all CANIAS nodes in this process
+ */
+export const sessionPool = new SessionPool();
@@ -0,0 +1,188 @@
+/**
+ * Table detection for CANIAS service results
+ * Finds row collections in parsed JSON/XML results so they can be emitted as one item per row
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import type { ITableOptions, ITableResult } from './types';
+
+/**
+ * Keys that hold column metadata in JSON/XML table structures
+ */
+const COLUMN_KEYS = ['columns', 'column', 'cols', 'fields', 'header', 'headers', 'metadata'];
+
+/**
+ * Keys that hold the rows of a table
+ */
+const ROW_KEYS = ['rows', 'row', 'records', 'record', 'data', 'items', 'item'];
+
+/**
+ * How deep nested wrappers (e.g. RESPONSE > TABLE > ROW) are searched
+ */
+const MAX_SEARCH_DEPTH = 5;
+
+function isPlainObject(value: unknown): value is IDataObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function findKey(object: IDataObject, candidates: string[]): string | undefined {
+	return Object.keys(object).find((key) => candidates.includes(key.toLowerCase()));
+}
+
+/**
+ * Get column names from a column metadata entry (strings, or objects with a name)
+ */
+function getColumnNames(columns: unknown): string[] | undefined {
+	// XML shape: <COLUMNS><COLUMN name="..."/></COLUMNS>
+	if (isPlainObject(columns)) {
+		const nestedKey = findKey(columns, COLUMN_KEYS);
+		if (nestedKey === undefined) {
+			return undefined;
+		}
+		const nested = columns[nestedKey];
+		return getColumnNames(Array.isArray(nested) ? nested : [nested]);
+	}
+
+	if (!Array.isArray(columns)) {
+		return undefined;
+	}
+
+	const names = columns.map((column) => {
+		if (typeof column === 'string') {
+			return column;
+		}
+		if (isPlainObject(column)) {
+			const nameKey = Object.keys(column).find((key) =>
+				['name', '@name', 'columnname', 'label', 'title'].includes(key.toLowerCase()),
+			);
+			return nameKey !== undefined ? String(column[nameKey]) : undefined;
+		}
+		return undefined;
+	});
+
+	return names.every((name) => name !== undefined) ? (names as string[]) : undefined;
+}
+
+/**
+ * Turn row values into keyed row objects
+ */
+function toRowObjects(rows: unknown[], columns: string[] | undefined): IDataObject[] | undefined {
+	if (rows.every(isPlainObject)) {
+		return rows as IDataObject[];
+	}
+
+	if (columns && rows.every(Array.isArray)) {
+		return (rows as unknown[][]).map((row) =>
+			Object.fromEntries(columns.map((column, index) => [column, row[index] ?? null])),
+		) as IDataObject[];
+	}
+
+	return undefined;
+}
+
+/**
+ * Try to read a table from a single object level
+ */
+function readTable(value: unknown, name?: string): ITableResult | undefined {
+	// JSON row array: [{...}, {...}]
+	if (Array.isArray(value)) {
+		const rows = toRowObjects(value, undefined);
+		// Empty arrays only count as an (empty) table at the top level
+		return rows && (value.length > 0 || name === undefined)
+			? { rows, metadata: name ? { name } : {} }
+			: undefined;
+	}
+
+	if (!isPlainObject(value)) {
+		return undefined;
+	}
+
+	const rowKey = findKey(value, ROW_KEYS);
+	if (rowKey === undefined) {
+		return undefined;
+	}
+
+	const rawRows = value[rowKey];
+	const columnKey = findKey(value, COLUMN_KEYS);
+	const columns = columnKey !== undefined ? getColumnNames(value[columnKey]) : undefined;
+
+	// XML shape: a single <ROW> is not an array after conversion
+	const rowList = Array.isArray(rawRows) ? rawRows : isPlainObject(rawRows) ? [rawRows] : undefined;
+	if (rowList === undefined) {
+		return undefined;
+	}
+
+	const rows = toRowObjects(rowList, columns);
+	if (rows === undefined) {
+		return undefined;
+	}
+
+	const metadata: IDataObject = name ? { name } : {};
+	for (const [key, entry] of Object.entries(value)) {
+		if (key !== rowKey) {
+			metadata[key] = entry;
+		}
+	}
+	if (columns) {
+		metadata.columns = columns;
+	}
+
+	return { rows, metadata };
+}
+
+/**
+ * Get a value by dot path (e.g. "RESPONSE.TABLE")
+ */
+export function getByPath(value: unknown, path: string): unknown {
+	return path
+		.split('.')
+		.filter((part) => part !== '')
+		.reduce<unknown>(
+			(current, part) => (isPlainObject(current) ? current[part] : undefined),
+			value,
+		);
+}
+
+/**
+ * Find the rows of a CANIAS table in a parsed service result.
+ * Returns undefined when the result does not contain a recognizable table.
+ */
+export function extractTable(
+	value: unknown,
+	options: ITableOptions = {},
+): ITableResult | undefined {
+	if (options.rowPath) {
+		const target = getByPath(value, options.rowPath);
+		const parts = options.rowPath.split('.');
+		const name = parts[parts.length - 1];
+		if (Array.isArray(target)) {
+			const rows = toRowObjects(target, undefined);
+			return rows ? { rows, metadata: { name } } : undefined;
+		}
+		// A path that points at a single row object still yields one row
+		return (
+			readTable(target, name) ??
+			(isPlainObject(target) ? { rows: [target], metadata: { name } } : undefined)
+		);
+	}
+
+	// Breadth-first, so the outermost table wins
+	let level: Array<{ value: unknown; name?: string }> = [{ value }];
+	for (let depth = 0; depth <= MAX_SEARCH_DEPTH && level.length > 0; depth++) {
+		const next: Array<{ value: unknown; name?: string }> = [];
+		for (const entry of level) {
+			const table = readTable(entry.value, entry.name);
+			if (table) {
+				return table;
+			}
+			if (isPlainObject(entry.value)) {
+				for (const [key, child] of Object.entries(entry.value)) {
+					next.push({ value: child, name: key });
+				}
+			}
+		}
+		level = next;
+	}
+
+	return undefined;
+}
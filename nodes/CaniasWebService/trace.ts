@@ -0,0 +1,133 @@
+/**
+ * Debug tracing for CANIAS Web Service calls
+ * Records the SOAP envelopes of an item's calls with passwords and session IDs redacted
+ */
+
+import { randomUUID } from 'crypto';
+import type { ICANIASClient, ISoapTrace } from './types';
+
+/**
+ * Replacement for redacted values
+ */
+export const REDACTED = '***';
+
+/**
+ * Elements whose content is never written to a trace
+ */
+const SECRET_ELEMENTS = ['p_strPassword', 'sessionid', 'p_strSessionId', 'loginReturn'];
+
+const SECRET_ELEMENT_PATTERN = new RegExp(
+	`(<(?:[\\w.-]+:)?(?:${SECRET_ELEMENTS.join('|')})(?:\\s[^>]*)?>)([^<]*)(</)`,
+	'gi',
+);
+
+/**
+ * Redact passwords and session IDs in an envelope; known secret values are also removed
+ * wherever else they appear (e.g. a session ID echoed in a fault string)
+ */
+export function redactEnvelope(xml: string, secrets: Iterable<string> = []): string {
+	let redacted = xml.replace(SECRET_ELEMENT_PATTERN, `$1${REDACTED}$3`);
+	for (const secret of secrets) {
+		if (secret.length >= 4) {
+			redacted = redacted.split(secret).join(REDACTED);
+		}
+	}
+	return redacted;
+}
+
+/**
+ * Values of the secret elements in an envelope
+ */
+function collectSecrets(xml: string, secrets: Set<string>): void {
+	const pattern = new RegExp(SECRET_ELEMENT_PATTERN);
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(xml)) !== null) {
+		const value = match[2].trim();
+		if (value !== '') {
+			secrets.add(value);
+		}
+	}
+}
+
+/**
+ * Records the exchanges of the calls made for one item.
+ * Events are matched by exchange ID, so parallel items sharing a cached client do not mix up traces.
+ */
+export class SoapTracer {
+	private readonly exchanges: ISoapTrace[] = [];
+
+	private readonly secrets = new Set<string>();
+
+	constructor(private readonly client: ICANIASClient) {}
+
+	/**
+	 * Run a call with its own exchange ID and record request, response, status and timing
+	 */
+	async run<T>(
+		operation: string,
+		call: (options: { exchangeId: string }) => Promise<T>,
+	): Promise<T> {
+		const exchangeId = randomUUID();
+		const trace: ISoapTrace = {
+			operation,
+			endpoint: null,
+			startedAt: new Date().toISOString(),
+			durationMs: 0,
+			httpStatus: null,
+			request: null,
+			response: null,
+		};
+		this.exchanges.push(trace);
+
+		const onRequest = (xml: string, eid: string) => {
+			if (eid === exchangeId) {
+				trace.request = xml;
+				// Set by the client right before the event is emitted
+				trace.endpoint = (this.client as unknown as { lastEndpoint?: string }).lastEndpoint ?? null;
+			}
+		};
+		const onResponse = (body: unknown, response: { status?: number } | null, eid: string) => {
+			if (eid === exchangeId) {
+				trace.response = typeof body === 'string' ? body : null;
+				trace.httpStatus = response?.status ?? null;
+			}
+		};
+		this.client.on('request', onRequest);
+		this.client.on('response', onResponse);
+
+		const start = Date.now();
+		try {
+			return await call({ exchangeId });
+		} catch (error) {
+			// HTTP errors carry the status and body on the axios response
+			const response = (error as { response?: { status?: number; data?: unknown } }).response;
+			trace.httpStatus = trace.httpStatus ?? response?.status ?? null;
+			if (trace.response === null && typeof response?.data === 'string') {
+				trace.response = response.data;
+			}
+			trace.error = (error as Error).message;
+			throw error;
+		} finally {
+			trace.durationMs = Date.now() - start;
+			this.client.removeListener('request', onRequest);
+			this.client.removeListener('response', onResponse);
+		}
+	}
+
+	/**
+	 * Recorded exchanges with passwords and session IDs redacted (empty when nothing was sent)
+	 */
+	getTrace(): ISoapTrace[] {
+		for (const { request, response } of this.exchanges) {
+			collectSecrets(request ?? '', this.secrets);
+			collectSecrets(response ?? '', this.secrets);
+		}
+
+		return this.exchanges.map(({ error, ...trace }) => ({
+			...trace,
+			request: trace.request === null ? null : redactEnvelope(trace.request, this.secrets),
+			response: trace.response === null ? null : redactEnvelope(trace.response, this.secrets),
+			...(error === undefined ? {} : { error: redactEnvelope(error, this.secrets) }),
+		}));
+	}
+}
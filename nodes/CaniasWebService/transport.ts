@@ -0,0 +1,310 @@
+/**
+ * HTTP transport settings for CANIAS Web Service
+ * Applies TLS (CA bundle, client certificate), HTTP authentication and proxies to WSDL and endpoint requests
+ */
+
+import type {
+	ICredentialDataDecryptedObject,
+	IDataObject,
+	IHttpRequestMethods,
+	IHttpRequestOptions,
+} from 'n8n-workflow';
+import type * as soap from 'soap';
+import type { IClientConfig, IHttpAuthOptions, IProxyOptions, ITlsOptions } from './types';
+
+/**
+ * TLS options, proxy and headers shared by the WSDL download and all service calls of a client
+ */
+export interface ITransportSettings {
+	tls?: ITlsOptions & { rejectUnauthorized: boolean };
+	proxy?: IProxyOptions;
+	headers: Record<string, string>;
+}
+
+/**
+ * Options of the legacy request helper, as far as they are used here
+ */
+interface ILegacyRequestOptions {
+	uri: string;
+	method: IHttpRequestMethods;
+	headers: IDataObject;
+	body?: unknown;
+	timeout?: number;
+	encoding: null;
+	json: false;
+	simple: false;
+	resolveWithFullResponse: true;
+	rejectUnauthorized?: boolean;
+	agentOptions?: IDataObject;
+	proxy?: IHttpRequestOptions['proxy'];
+}
+
+/**
+ * Request helpers of the calling node (execute, poll, load options or credential test functions).
+ * Requests go through httpRequest; credential tests only have the legacy request helper.
+ */
+export interface IRequestHelpers {
+	httpRequest?(options: IHttpRequestOptions): Promise<unknown>;
+	request(options: ILegacyRequestOptions): Promise<unknown>;
+}
+
+/**
+ * Request as built by soap's HttpClient
+ */
+interface ISoapRequestConfig {
+	url: string;
+	method: string;
+	headers: IDataObject;
+	data?: unknown;
+	timeout?: number;
+}
+
+interface IHelperResponse {
+	body?: unknown;
+	headers?: IDataObject;
+	statusCode?: number;
+	statusMessage?: string;
+}
+
+/**
+ * PEM values pasted into a single-line field often contain literal "\n" sequences
+ */
+function normalizePem(value: unknown): string | undefined {
+	if (typeof value !== 'string' || value.trim() === '') {
+		return undefined;
+	}
+	return value.replace(/\\n/g, '\n').trim();
+}
+
+/**
+ * Read the TLS, HTTP authentication and proxy settings of a credential
+ */
+export function getTransportConfig(
+	credentials: ICredentialDataDecryptedObject,
+): Pick<IClientConfig, 'tls' | 'httpAuth' | 'proxy'> {
+	const tls: ITlsOptions = {
+		ca: normalizePem(credentials.caCertificate),
+		cert: normalizePem(credentials.clientCertificate),
+		key: normalizePem(credentials.clientKey),
+		passphrase: (credentials.clientKeyPassphrase as string) || undefined,
+	};
+
+	let httpAuth: IHttpAuthOptions | undefined;
+	if (credentials.httpAuthentication === 'basic') {
+		httpAuth = {
+			type: 'basic',
+			username: credentials.httpUser as string,
+			password: credentials.httpPassword as string,
+		};
+	} else if (credentials.httpAuthentication === 'bearer') {
+		httpAuth = { type: 'bearer', token: credentials.bearerToken as string };
+	}
+
+	let proxy: IProxyOptions | undefined;
+	if (typeof credentials.proxyUrl === 'string' && credentials.proxyUrl.trim() !== '') {
+		proxy = {
+			url: credentials.proxyUrl.trim(),
+			username: (credentials.proxyUser as string) || undefined,
+			password: (credentials.proxyPassword as string) || undefined,
+			noProxy: ((credentials.noProxy as string) ?? '')
+				.split(',')
+				.map((entry) => entry.trim())
+				.filter((entry) => entry !== ''),
+		};
+	}
+
+	return {
+		tls: tls.ca || tls.cert || tls.key ? tls : undefined,
+		httpAuth,
+		proxy,
+	};
+}
+
+/**
+ * Whether a host is reached without the proxy (curl style no-proxy matching)
+ */
+export function isProxyBypassed(host: string, port: number, noProxy: string[] = []): boolean {
+	const hostname = host.toLowerCase().replace(/^\[|\]$/g, '');
+	return noProxy.some((rawEntry) => {
+		const entry = rawEntry.toLowerCase();
+		if (entry === '*') {
+			return true;
+		}
+
+		const [, entryHost, entryPort] = /^(.*?)(?::(\d+))?$/.exec(entry) ?? [];
+		if (entryPort !== undefined && Number(entryPort) !== port) {
+			return false;
+		}
+
+		// ".example.com" and "*.example.com" only match subdomains, "example.com" matches both
+		const domain = entryHost.replace(/^\*?\./, '');
+		return hostname.endsWith(`.${domain}`) || (hostname === domain && !entryHost.startsWith('.'));
+	});
+}
+
+/**
+ * Proxy of the n8n request helper
+ */
+function getProxyConfig(proxy: IProxyOptions): IHttpRequestOptions['proxy'] {
+	const url = new URL(proxy.url.includes('://') ? proxy.url : `http://${proxy.url}`);
+	const protocol = url.protocol.replace(/:$/, '');
+	return {
+		protocol,
+		host: url.hostname,
+		port: Number(url.port) || (protocol === 'https' ? 443 : 80),
+		...(proxy.username
+			? { auth: { username: proxy.username, password: proxy.password ?? '' } }
+			: {}),
+	};
+}
+
+/**
+ * Build the TLS options, proxy and authentication headers for a client configuration
+ */
+export function getTransportSettings(config: IClientConfig): ITransportSettings {
+	const headers: Record<string, string> = {};
+	if (config.httpAuth?.type === 'basic') {
+		const token = Buffer.from(
+			`${config.httpAuth.username ?? ''}:${config.httpAuth.password ?? ''}`,
+		).toString('base64');
+		headers.Authorization = `Basic ${token}`;
+	} else if (config.httpAuth?.type === 'bearer') {
+		headers.Authorization = `Bearer ${config.httpAuth.token ?? ''}`;
+	}
+
+	return {
+		tls:
+			config.tls || config.disableSslVerification
+				? {
+						...config.tls,
+						// Disable SSL verification for self-signed certificates
+						rejectUnauthorized: !config.disableSslVerification,
+					}
+				: undefined,
+		proxy: config.proxy,
+		headers,
+	};
+}
+
+/**
+ * Whether a configuration needs anything beyond soap's default transport
+ */
+export function hasTransportSettings(settings: ITransportSettings): boolean {
+	return (
+		settings.tls !== undefined ||
+		settings.proxy !== undefined ||
+		Object.keys(settings.headers).length > 0
+	);
+}
+
+/**
+ * Whether the requests have to go through the n8n request helper (TLS options or a proxy)
+ */
+export function needsRequestHelper(settings: ITransportSettings): boolean {
+	return settings.tls !== undefined || settings.proxy !== undefined;
+}
+
+/**
+ * Send through the legacy request helper. It is the only n8n helper that takes a CA bundle and a
+ * client certificate (httpRequest has no such options), and the only one credential tests get.
+ * Every other request goes through httpRequest.
+ */
+async function sendWithCertificates(
+	helpers: IRequestHelpers,
+	options: Omit<IHttpRequestOptions, 'url' | 'method' | 'headers'> & {
+		url: string;
+		method: IHttpRequestMethods;
+		headers: IDataObject;
+	},
+	tls: ITransportSettings['tls'],
+): Promise<IHelperResponse> {
+	return (await helpers.request({
+		uri: options.url,
+		method: options.method,
+		headers: options.headers,
+		body: options.body,
+		timeout: options.timeout,
+		// Raw body and every status code, like httpRequest with returnFullResponse and ignoreHttpStatusErrors
+		encoding: null,
+		json: false,
+		simple: false,
+		resolveWithFullResponse: true,
+		...(tls
+			? {
+					rejectUnauthorized: tls.rejectUnauthorized,
+					agentOptions: { ca: tls.ca, cert: tls.cert, key: tls.key, passphrase: tls.passphrase },
+				}
+			: {}),
+		...(options.proxy ? { proxy: options.proxy } : {}),
+	})) as IHelperResponse;
+}
+
+/**
+ * Sends the requests of soap's HttpClient (its `request` option) through the n8n request helpers,
+ * which apply the TLS options and the proxy. Hosts on the no-proxy list are reached directly.
+ */
+export class TransportRequest {
+	constructor(
+		private readonly settings: ITransportSettings,
+		private readonly helpers: IRequestHelpers,
+	) {}
+
+	readonly send = async (config: ISoapRequestConfig) => {
+		const { tls, proxy } = this.settings;
+		const target = new URL(config.url);
+		const port = Number(target.port) || (target.protocol === 'https:' ? 443 : 80);
+		const useProxy = proxy !== undefined && !isProxyBypassed(target.hostname, port, proxy.noProxy);
+
+		const options = {
+			url: config.url,
+			method: config.method.toUpperCase() as IHttpRequestMethods,
+			headers: config.headers,
+			body: (config.data ?? undefined) as IHttpRequestOptions['body'],
+			timeout: config.timeout,
+			...(useProxy ? { proxy: getProxyConfig(proxy) } : {}),
+		};
+		const hasCertificates = Boolean(tls?.ca || tls?.cert || tls?.key);
+		const response =
+			this.helpers.httpRequest && !hasCertificates
+				? ((await this.helpers.httpRequest({
+						...options,
+						// Raw body and every status code, soap reads SOAP faults from 500 responses itself
+						encoding: 'arraybuffer',
+						json: false,
+						returnFullResponse: true,
+						ignoreHttpStatusErrors: true,
+						skipSslCertificateValidation: tls?.rejectUnauthorized === false,
+					})) as IHelperResponse)
+				: await sendWithCertificates(this.helpers, options, tls);
+
+		const body = response.body;
+		return {
+			status: response.statusCode ?? 0,
+			statusText: response.statusMessage ?? '',
+			headers: response.headers ?? {},
+			data: Buffer.isBuffer(body)
+				? body.toString('utf8')
+				: body instanceof ArrayBuffer
+					? Buffer.from(body).toString('utf8')
+					: typeof body === 'string' || body === undefined
+						? (body ?? '')
+						: JSON.stringify(body),
+			config,
+		};
+	};
+}
+
+/**
+ * soap security that adds the transport headers (HTTP authentication) to every service call
+ */
+export class TransportSecurity implements soap.ISecurity {
+	constructor(private readonly settings: ITransportSettings) {}
+
+	addHeaders(headers: Record<string, unknown>): void {
+		Object.assign(headers, this.settings.headers);
+	}
+
+	toXML(): string {
+		return '';
+	}
+}
@@ -3,6 +3,7 @@
  * Generated from iasWebService.xml WSDL (Apache Axis 1.4)
  */
 
+import type { IDataObject } from 'n8n-workflow';
 import type { Client } from 'soap';
 
 // ============================================================================
@@ -16,18 +17,26 @@ import type { Client } from 'soap';
 export interface ICANIASClient extends Client {
 	loginAsync(
 		params: ILoginRequest,
+		options?: Record<string, unknown>,
+		extraHeaders?: Record<string, string>,
 	): Promise<[ILoginResponse, string, Record<string, any>]>;
 
 	listIASServicesAsync(
 		params: IListIASServicesRequest,
+		options?: Record<string, unknown>,
+		extraHeaders?: Record<string, string>,
 	): Promise<[IListIASServicesResponse, string, Record<string, any>]>;
 
 	callIASServiceAsync(
 		params: ICallIASServiceRequest,
+		options?: Record<string, unknown>,
+		extraHeaders?: Record<string, string>,
 	): Promise<[ICallIASServiceResponse, string, Record<string, any>]>;
 
 	logoutAsync(
 		params: ILogoutRequest,
+		options?: Record<string, unknown>,
+		extraHeaders?: Record<string, string>,
 	): Promise<[ILogoutResponse, string, Record<string, any>]>;
 }
 
@@ -128,9 +137,25 @@ export interface IParsedLoginResult {
  * Parsed list services result for node output
  */
 export interface IParsedListServicesResult {
-	services: string[] | string;
+	services: string[];
 }
 
+/**
+ * Filtering and sorting options for listIASServices results
+ */
+export interface IServiceListOptions {
+	filter?: string;
+	filterMode?: 'contains' | 'wildcard' | 'regex';
+	caseSensitive?: boolean;
+	sort?: 'none' | 'asc' | 'desc';
+	deduplicate?: boolean;
+}
+
+/**
+ * Output mode for listIASServices results
+ */
+export type ListOutputMode = 'single' | 'perService';
+
 /**
  * Parsed logout result for node output
  */
@@ -139,6 +164,136 @@ export interface IParsedLogoutResult {
 	response: any;
 }
 
+// ============================================================================
+// CLIENT CONFIGURATION
+// ============================================================================
+
+/**
+ * Everything that determines how a SOAP client is built
+ * Must stay JSON-serializable, it is also used as the client cache key
+ */
+export interface IClientConfig {
+	wsdlUrl: string;
+	wsdlSource?: WsdlSource;
+	localWsdlPath?: string;
+	endpoint?: string;
+	timeout?: number;
+	disableSslVerification?: boolean;
+	tls?: ITlsOptions;
+	httpAuth?: IHttpAuthOptions;
+	proxy?: IProxyOptions;
+	/** Sent with the WSDL download and every operation */
+	httpHeaders?: Record<string, string>;
+	/** SOAP header blocks (XML) added to every envelope */
+	soapHeaders?: string[];
+}
+
+/**
+ * SOAP header block defined as a key/value pair
+ */
+export interface ISoapHeader {
+	/** Element name, optionally prefixed (e.g. wsa:Action) */
+	name: string;
+	value: string;
+	namespace?: string;
+}
+
+/**
+ * TLS settings for WSDL and endpoint requests (PEM encoded)
+ */
+export interface ITlsOptions {
+	/** CA bundle used instead of the system CAs (e.g. an internal CA) */
+	ca?: string;
+	/** Client certificate and key for mutual TLS */
+	cert?: string;
+	key?: string;
+	passphrase?: string;
+}
+
+/**
+ * HTTP(S) proxy for WSDL and endpoint requests
+ */
+export interface IProxyOptions {
+	/** e.g. http://proxy.example.com:3128 */
+	url: string;
+	username?: string;
+	password?: string;
+	/** Hosts reached directly: exact names, domain suffixes (.example.com), host:port or * */
+	noProxy?: string[];
+}
+
+/**
+ * HTTP authentication in front of the SOAP service (e.g. a reverse proxy)
+ */
+export interface IHttpAuthOptions {
+	type: 'basic' | 'bearer';
+	username?: string;
+	password?: string;
+	token?: string;
+}
+
+// ============================================================================
+// ENVIRONMENT PROFILES
+// ============================================================================
+
+/**
+ * Named environment (e.g. DEV, TEST, PROD) defined in the credential
+ * Fields that are not set fall back to the credential's own values
+ */
+export interface IEnvironmentProfile {
+	wsdlUrl?: string;
+	wsdlSource?: WsdlSource;
+	localWsdlPath?: string;
+	endpoint?: string;
+	client?: string;
+	language?: string;
+	dbName?: string;
+	dbServer?: string;
+	appServer?: string;
+	username?: string;
+}
+
+// ============================================================================
+// SESSION INTERFACES
+// ============================================================================
+
+/**
+ * Optional login parameter overrides (empty values fall back to credentials)
+ */
+export interface ILoginOverrides {
+	client?: string;
+	language?: string;
+	dbName?: string;
+	dbServer?: string;
+	appServer?: string;
+	username?: string;
+	password?: string;
+}
+
+/**
+ * Options for the process-wide session pool
+ * Durations are in milliseconds
+ */
+export interface ISessionPoolOptions {
+	idleTimeout: number;
+	maxSessions: number;
+	acquireTimeout: number;
+}
+
+/**
+ * Session held by the process-wide session pool
+ */
+export interface IPooledSession {
+	key: string;
+	sessionId: string;
+	createdAt: number;
+	lastUsedAt: number;
+	idleTimeout: number;
+	inUse: boolean;
+	failureCount: number;
+	close: () => Promise<void>;
+}
+
 // ============================================================================
 // SOAP FAULT INTERFACES
 // ============================================================================
@@ -175,6 +330,426 @@ export interface ISOAPError extends Error {
 	statusCode?: number;
 }
 
+// ============================================================================
+// RESULT PARSING
+// ============================================================================
+
+/**
+ * How XML results are converted to JSON
+ */
+export interface IXmlParseOptions {
+	/** merge: attributes become prefixed keys, group: attributes are nested under attributeKey */
+	attributeMode?: 'merge' | 'group' | 'ignore';
+	attributePrefix?: string;
+	attributeKey?: string;
+	/** auto: arrays only for repeated elements, always: every child element is an array */
+	arrayMode?: 'auto' | 'always';
+	/** Element names that are always arrays, even when they occur once */
+	forceArray?: string[];
+	textKey?: string;
+}
+
+/**
+ * Output parsing mode for callIASService results
+ */
+export type OutputParsing = 'auto' | 'json' | 'xml' | 'none';
+
+/**
+ * Options for splitting table results into items
+ */
+export interface ITableOptions {
+	/** Dot path to the table or row array, detected automatically when empty */
+	rowPath?: string;
+	includeMetadata?: boolean;
+	metadataKey?: string;
+}
+
+/**
+ * Rows found in a service result plus the remaining table information (name, columns, ...)
+ */
+export interface ITableResult {
+	rows: IDataObject[];
+	metadata: IDataObject;
+}
+
+/**
+ * Output mode for callIASService results
+ */
+export type OutputMode = 'single' | 'splitRows';
+
+/**
+ * How callIASService results are written to binary output
+ * none: never, auto: base64 documents of a known type, base64: always decode
+ */
+export type BinaryOutputMode = 'none' | 'auto' | 'base64';
+
+/**
+ * How input binary data is put into the args
+ * placeholder: replaces a placeholder text, jsonProperty: set as a property of the JSON args
+ */
+export type BinaryArgsInjection = 'placeholder' | 'jsonProperty';
+
+/**
+ * File type detected from binary content
+ */
+export interface IDetectedFileType {
+	mimeType: string;
+	extension: string;
+}
+
+/**
+ * Binary content decoded from a service result
+ */
+export interface IDecodedBinaryResult {
+	data: Buffer;
+	mimeType?: string;
+	extension?: string;
+}
+
+/**
+ * Error classification used for error items and retries
+ */
+export type ErrorCategory =
+	| 'soapFault'
+	| 'sessionExpired'
+	| 'http'
+	| 'unavailable'
+	| 'timeout'
+	| 'connection'
+	| 'ssl'
+	| 'other';
+
+/**
+ * Structured error emitted as an item when "Continue On Fail" is enabled
+ */
+export interface ISOAPErrorPayload {
+	message: string;
+	description: string | null;
+	category: ErrorCategory;
+	faultcode: string | null;
+	faultstring: string | null;
+	faultactor: string | null;
+	detail: unknown;
+	httpStatus: number | null;
+	operation: string;
+	itemIndex: number;
+}
+
+/**
+ * Retry settings for transient failures
+ * Delays are in milliseconds
+ */
+export interface IRetryOptions {
+	/** Total number of attempts, including the first one */
+	maxAttempts: number;
+	baseDelay: number;
+	maxDelay: number;
+	jitter: boolean;
+	categories: ErrorCategory[];
+	/** Whether calls with permanent: true may be retried (they may have been committed already) */
+	retryPermanent: boolean;
+}
+
+// ============================================================================
+// TYPED ARGUMENTS
+// ============================================================================
+
+/**
+ * Value types supported by the typed argument builder
+ */
+export type ArgumentType = 'string' | 'integer' | 'decimal' | 'date' | 'boolean' | 'list';
+
+/**
+ * A named, typed callIASService argument
+ */
+export interface ITypedArgument {
+	name: string;
+	type: ArgumentType;
+	value: string;
+	required?: boolean;
+}
+
+/**
+ * How typed arguments are serialized into the args string
+ */
+export interface IArgsFormatOptions {
+	/** positional: values only, named: NAME=value pairs */
+	format: 'positional' | 'named';
+	delimiter: string;
+	/** Separator between the values of a list argument */
+	listDelimiter: string;
+	quoteStrings: boolean;
+	/** Output date format with yyyy, MM, dd, HH, mm and ss tokens */
+	dateFormat: string;
+	decimalSeparator: string;
+	booleanTrue: string;
+	booleanFalse: string;
+	/** keep: send as-is (UTF-8), escape: \uXXXX escapes, transliterate: ş -> s etc. */
+	turkishCharacters: 'keep' | 'escape' | 'transliterate';
+}
+
+// ============================================================================
+// SCHEMA CATALOG
+// ============================================================================
+
+export type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Supported subset of JSON Schema
+ */
+export interface ISchema {
+	type?: SchemaType | SchemaType[];
+	description?: string;
+	properties?: Record<string, ISchema>;
+	required?: string[];
+	additionalProperties?: boolean | ISchema;
+	items?: ISchema;
+	enum?: unknown[];
+	minimum?: number;
+	maximum?: number;
+	minLength?: number;
+	maxLength?: number;
+	minItems?: number;
+	maxItems?: number;
+	pattern?: string;
+	format?: 'date' | 'date-time';
+}
+
+/**
+ * Catalog entry of one IAS service
+ */
+export interface IServiceCatalogEntry {
+	description?: string;
+	/** Schema of the args (JSON object args, typed parameters by name or the raw string) */
+	args?: ISchema;
+	/** Schema of the parsed result */
+	result?: ISchema;
+}
+
+/**
+ * A value that does not match its schema; path e.g. result.ROW[2].AMOUNT
+ */
+export interface ISchemaViolation {
+	path: string;
+	message: string;
+}
+
+/**
+ * What the catalog is used for in callIASService
+ */
+export type CatalogValidation = 'full' | 'args' | 'off';
+
+// ============================================================================
+// AGENT TOOL
+// ============================================================================
+
+/**
+ * How the arguments of an agent function call become the args string
+ * json: JSON object, positional/named: typed arguments in the order of the parameter schema
+ */
+export type AgentArgsEncoding = 'json' | 'positional' | 'named';
+
+/**
+ * An IAS service exposed to an AI agent as a callable function
+ */
+export interface IAgentFunction {
+	name: string;
+	serviceid: string;
+	description: string;
+	/** JSON Schema (object) of the function arguments */
+	parameters?: ISchema;
+	returntype: string;
+	argsEncoding: AgentArgsEncoding;
+}
+
+/**
+ * Limits that keep agent tool results small enough for an LLM context
+ */
+export interface IAgentResultLimits {
+	maxRows: number;
+	maxCharacters: number;
+}
+
+// ============================================================================
+// RECORD / REPLAY
+// ============================================================================
+
+/**
+ * live: call CANIAS, record: call CANIAS and store the responses, replay: answer from stored responses
+ */
+export type ClientMode = 'live' | 'record' | 'replay';
+
+/**
+ * Where recorded responses are kept
+ */
+export type FixtureStorage = 'staticData' | 'file';
+
+/**
+ * A recorded request and its SOAP response
+ */
+export interface IFixtureEntry {
+	operation: string;
+	/** Normalized request: no session IDs or passwords, canonical JSON args */
+	request: Record<string, unknown>;
+	response: {
+		result: unknown;
+		rawResponse: string;
+		soapHeaders: Record<string, unknown>;
+	};
+	recordedAt: string;
+}
+
+/**
+ * Content of a fixture file (or of the workflow static data entry)
+ */
+export interface IFixtureFile {
+	version: 1;
+	entries: IFixtureEntry[];
+}
+
+// ============================================================================
+// LOCALE CONVERSION
+// ============================================================================
+
+/**
+ * Number, date and flag formats of CANIAS session languages
+ */
+export type CaniasLocale = 'tr' | 'de' | 'en';
+
+/**
+ * Type a field is converted to (string keeps the value as it is)
+ */
+export type LocaleValueType = 'boolean' | 'date' | 'dateTime' | 'number' | 'string';
+
+/**
+ * off: results are not converted, auto: types are detected (field rules take precedence),
+ * rules: only fields with a rule are converted
+ */
+export type LocaleResultConversion = 'off' | 'auto' | 'rules';
+
+/**
+ * How a locale writes dates, decimals and boolean flags
+ */
+export interface ILocaleFormat {
+	/** Date format with yyyy, MM and dd tokens (e.g. dd.MM.yyyy) */
+	dateFormat: string;
+	decimalSeparator: string;
+	thousandsSeparator: string;
+	booleanTrue: string;
+	booleanFalse: string;
+}
+
+/**
+ * Type of a field, matched by name (case-insensitive) at any depth
+ */
+export interface ILocaleFieldRule {
+	field: string;
+	type: LocaleValueType;
+}
+
+/**
+ * Resolved locale conversion settings of a callIASService item
+ */
+export interface ILocaleConversionOptions {
+	format: ILocaleFormat;
+	resultConversion: LocaleResultConversion;
+	rules: ILocaleFieldRule[];
+}
+
+// ============================================================================
+// PAGINATION
+// ============================================================================
+
+/**
+ * Value injected into the args of each page: page number or row offset
+ */
+export type PageParameter = 'page' | 'offset';
+
+/**
+ * How the page value is injected: at a JSON path of JSON args or in place of a placeholder text
+ */
+export type PageInjection = 'jsonPath' | 'placeholder';
+
+/**
+ * When pagination stops: on an empty page, on a page with fewer rows than the page size,
+ * or when the rows reach a total count returned by the service
+ */
+export type PaginationStop = 'emptyPage' | 'partialPage' | 'totalCount';
+
+/**
+ * Pagination settings of callIASService
+ */
+export interface IPaginationOptions {
+	parameter: PageParameter;
+	injection: PageInjection;
+	/** Dot path of the page value in JSON args (e.g. "paging.offset") */
+	jsonPath?: string;
+	/** Text replaced with the page value (e.g. "%PAGE%") */
+	placeholder?: string;
+	pageSize: number;
+	stopCondition: PaginationStop;
+	/** Dot path of the total row count in the parsed result of the first page */
+	totalCountPath?: string;
+	/** Number of the first page (page numbers only) */
+	firstPage?: number;
+	/** Safety limit on the number of calls */
+	maxPages?: number;
+	/** Dot path the page size is written to in JSON args */
+	pageSizePath?: string;
+	/** Text replaced with the page size */
+	pageSizePlaceholder?: string;
+}
+
+/**
+ * Rows of all pages
+ */
+export interface IPaginatedResult {
+	rows: IDataObject[];
+	pageCount: number;
+	totalCount?: number;
+}
+
+// ============================================================================
+// TRIGGER
+// ============================================================================
+
+/**
+ * How the trigger watermark is compared
+ * timestamp: dates (ISO, DD.MM.YYYY or numeric), id: numbers, otherwise text
+ */
+export type WatermarkMode = 'timestamp' | 'id';
+
+/**
+ * Watermark kept in the workflow static data between polls
+ */
+export interface IWatermarkState {
+	/** Highest watermark field value emitted so far */
+	watermark?: string;
+	/** Fingerprints of the rows emitted with exactly the watermark value */
+	seen?: string[];
+}
+
+// ============================================================================
+// DEBUG TRACE
+// ============================================================================
+
+/**
+ * One recorded SOAP exchange (Advanced > Debug Trace); passwords and session IDs are redacted
+ */
+export interface ISoapTrace {
+	operation: string;
+	endpoint: string | null;
+	/** ISO timestamp of the start of the call */
+	startedAt: string;
+	durationMs: number;
+	httpStatus: number | null;
+	/** Envelope that was sent */
+	request: string | null;
+	/** Raw response body */
+	response: string | null;
+	error?: string;
+}
+
 // ============================================================================
 // UTILITY TYPES
 // ============================================================================
@@ -191,9 +766,24 @@ export interface IFullResponse<T> {
 /**
  * Args mode for callIASService operation
  */
-export type CallArgsMode = 'rawString' | 'jsonString';
+export type CallArgsMode = 'rawString' | 'jsonString' | 'typed';
+
+/**
+ * Session handling mode for listIASServices and callIASService
+ */
+export type SessionHandling = 'manual' | 'automatic' | 'pooled';
+
+/**
+ * Where the WSDL is loaded from
+ */
+export type WsdlSource = 'remote' | 'bundled' | 'local';
 
 /**
  * Operation types
  */
-export type OperationType = 'login' | 'listIASServices' | 'callIASService' | 'logout';
+export type OperationType =
+	| 'login'
+	| 'listIASServices'
+	| 'callIASService'
+	| 'logout'
+	| 'agentTool';
@@ -0,0 +1,157 @@
+/**
+ * Bundled WSDL for the CANIAS IAS Web Service
+ * Lets the node build its SOAP client without downloading ?wsdl from the server
+ */
+
+import * as soap from 'soap';
+
+/**
+ * Virtual URI of the bundled WSDL (used for relative imports and error messages only)
+ */
+export const BUNDLED_WSDL_URI = 'bundled:iasWebService.wsdl';
+
+/**
+ * iasWebService WSDL as published by CaniasWS-v1 (Apache Axis 1.4, rpc/encoded).
+ * The binding address is a placeholder - the node always sets the endpoint explicitly.
+ */
+export const BUNDLED_WSDL = `<?xml version="1.0" encoding="UTF-8"?>
+<wsdl:definitions targetNamespace="http://localhost:8080/CaniasWS-v1/services/iasWebService" xmlns:apachesoap="http://xml.apache.org/xml-soap" xmlns:impl="http://localhost:8080/CaniasWS-v1/services/iasWebService" xmlns:intf="http://localhost:8080/CaniasWS-v1/services/iasWebService" xmlns:soapenc="http://schemas.xmlsoap.org/soap/encoding/" xmlns:wsdl="http://schemas.xmlsoap.org/wsdl/" xmlns:wsdlsoap="http://schemas.xmlsoap.org/wsdl/soap/" xmlns:xsd="http://www.w3.org/2001/XMLSchema">
+<!--WSDL created by Apache Axis version: 1.4-->
+ <wsdl:types>
+  <schema targetNamespace="http://localhost:8080/CaniasWS-v1/services/iasWebService" xmlns="http://www.w3.org/2001/XMLSchema">
+   <import namespace="http://schemas.xmlsoap.org/soap/encoding/"/>
+   <complexType name="ArrayOf_xsd_string">
+    <complexContent>
+     <restriction base="soapenc:Array">
+      <attribute ref="soapenc:arrayType" wsdl:arrayType="xsd:string[]"/>
+     </restriction>
+    </complexContent>
+   </complexType>
+  </schema>
+ </wsdl:types>
+
+   <wsdl:message name="loginRequest">
+      <wsdl:part name="p_strClient" type="xsd:string"/>
+      <wsdl:part name="p_strLanguage" type="xsd:string"/>
+      <wsdl:part name="p_strDBName" type="xsd:string"/>
+      <wsdl:part name="p_strDBServer" type="xsd:string"/>
+      <wsdl:part name="p_strAppServer" type="xsd:string"/>
+      <wsdl:part name="p_strUserName" type="xsd:string"/>
+      <wsdl:part name="p_strPassword" type="xsd:string"/>
+   </wsdl:message>
+
+   <wsdl:message name="loginResponse">
+      <wsdl:part name="loginReturn" type="xsd:string"/>
+   </wsdl:message>
+
+   <wsdl:message name="listIASServicesRequest">
+      <wsdl:part name="p_strSessionId" type="xsd:string"/>
+   </wsdl:message>
+
+   <wsdl:message name="listIASServicesResponse">
+      <wsdl:part name="listIASServicesReturn" type="impl:ArrayOf_xsd_string"/>
+   </wsdl:message>
+
+   <wsdl:message name="callIASServiceRequest">
+      <wsdl:part name="sessionid" type="xsd:string"/>
+      <wsdl:part name="serviceid" type="xsd:string"/>
+      <wsdl:part name="args" type="xsd:string"/>
+      <wsdl:part name="returntype" type="xsd:string"/>
+      <wsdl:part name="permanent" type="xsd:boolean"/>
+   </wsdl:message>
+
+   <wsdl:message name="callIASServiceResponse">
+      <wsdl:part name="callIASServiceReturn" type="xsd:anyType"/>
+   </wsdl:message>
+
+   <wsdl:message name="logoutRequest">
+      <wsdl:part name="p_strSessionId" type="xsd:string"/>
+   </wsdl:message>
+
+   <wsdl:message name="logoutResponse">
+   </wsdl:message>
+
+   <wsdl:portType name="IasWebService">
+      <wsdl:operation name="login" parameterOrder="p_strClient p_strLanguage p_strDBName p_strDBServer p_strAppServer p_strUserName p_strPassword">
+         <wsdl:input message="impl:loginRequest" name="loginRequest"/>
+         <wsdl:output message="impl:loginResponse" name="loginResponse"/>
+      </wsdl:operation>
+      <wsdl:operation name="listIASServices" parameterOrder="p_strSessionId">
+         <wsdl:input message="impl:listIASServicesRequest" name="listIASServicesRequest"/>
+         <wsdl:output message="impl:listIASServicesResponse" name="listIASServicesResponse"/>
+      </wsdl:operation>
+      <wsdl:operation name="callIASService" parameterOrder="sessionid serviceid args returntype permanent">
+         <wsdl:input message="impl:callIASServiceRequest" name="callIASServiceRequest"/>
+         <wsdl:output message="impl:callIASServiceResponse" name="callIASServiceResponse"/>
+      </wsdl:operation>
+      <wsdl:operation name="logout" parameterOrder="p_strSessionId">
+         <wsdl:input message="impl:logoutRequest" name="logoutRequest"/>
+         <wsdl:output message="impl:logoutResponse" name="logoutResponse"/>
+      </wsdl:operation>
+   </wsdl:portType>
+
+   <wsdl:binding name="iasWebServiceSoapBinding" type="impl:IasWebService">
+      <wsdlsoap:binding style="rpc" transport="http://schemas.xmlsoap.org/soap/http"/>
+      <wsdl:operation name="login">
+         <wsdlsoap:operation soapAction=""/>
+         <wsdl:input name="loginRequest">
+            <wsdlsoap:body encodingStyle="http://schemas.xmlsoap.org/soap/encoding/" namespace="http://localhost:8080/CaniasWS-v1/services/iasWebService" use="encoded"/>
+         </wsdl:input>
+         <wsdl:output name="loginResponse">
+            <wsdlsoap:body encodingStyle="http://schemas.xmlsoap.org/soap/encoding/" namespace="http://localhost:8080/CaniasWS-v1/services/iasWebService" use="encoded"/>
+         </wsdl:output>
+      </wsdl:operation>
+      <wsdl:operation name="listIASServices">
+         <wsdlsoap:operation soapAction=""/>
+         <wsdl:input name="listIASServicesRequest">
+            <wsdlsoap:body encodingStyle="http://schemas.xmlsoap.org/soap/encoding/" namespace="http://localhost:8080/CaniasWS-v1/services/iasWebService" use="encoded"/>
+         </wsdl:input>
+         <wsdl:output name="listIASServicesResponse">
+            <wsdlsoap:body encodingStyle="http://schemas.xmlsoap.org/soap/encoding/" namespace="http://localhost:8080/CaniasWS-v1/services/iasWebService" use="encoded"/>
+         </wsdl:output>
+      </wsdl:operation>
+      <wsdl:operation name="callIASService">
+         <wsdlsoap:operation soapAction=""/>
+         <wsdl:input name="callIASServiceRequest">
+            <wsdlsoap:body encodingStyle="http://schemas.xmlsoap.org/soap/encoding/" namespace="http://localhost:8080/CaniasWS-v1/services/iasWebService" use="encoded"/>
+         </wsdl:input>
+         <wsdl:output name="callIASServiceResponse">
+            <wsdlsoap:body encodingStyle="http://schemas.xmlsoap.org/soap/encoding/" namespace="http://localhost:8080/CaniasWS-v1/services/iasWebService" use="encoded"/>
+         </wsdl:output>
+      </wsdl:operation>
+      <wsdl:operation name="logout">
+         <wsdlsoap:operation soapAction=""/>
+         <wsdl:input name="logoutRequest">
+            <wsdlsoap:body encodingStyle="http://schemas.xmlsoap.org/soap/encoding/" namespace="http://localhost:8080/CaniasWS-v1/services/iasWebService" use="encoded"/>
+         </wsdl:input>
+         <wsdl:output name="logoutResponse">
+            <wsdlsoap:body encodingStyle="http://schemas.xmlsoap.org/soap/encoding/" namespace="http://localhost:8080/CaniasWS-v1/services/iasWebService" use="encoded"/>
+         </wsdl:output>
+      </wsdl:operation>
+   </wsdl:binding>
+
+   <wsdl:service name="IasWebServiceService">
+      <wsdl:port binding="impl:iasWebServiceSoapBinding" name="iasWebService">
+         <wsdlsoap:address location="http://localhost:8080/CaniasWS-v1/services/iasWebService"/>
+      </wsdl:port>
+   </wsdl:service>
+</wsdl:definitions>
+`;
+
+/**
+ * Derive the SOAP endpoint from a WSDL URL (strips the ?wsdl query)
+ */
+export function getEndpointFromWsdlUrl(wsdlUrl: string): string {
+	return wsdlUrl.replace(/\?wsdl$/i, '');
+}
+
+/**
+ * Parse the bundled WSDL without any network access
+ */
+export async function createBundledWsdl(options: soap.IOptions): Promise<soap.WSDL> {
+	const wsdl = new soap.WSDL(BUNDLED_WSDL, BUNDLED_WSDL_URI, options);
+	await new Promise<void>((resolve, reject) => {
+		wsdl.onReady((error) => (error ? reject(error) : resolve()));
+	});
+	return wsdl;
+}
@@ -0,0 +1,218 @@
+/**
+ * Minimal XML parser for CANIAS Web Service
+ * Reads result payloads and SOAP header blocks into an element tree without a runtime dependency
+ */
+
+/**
+ * Parsed element; text holds the concatenated text and CDATA content of the element itself
+ */
+export interface IXmlElement {
+	name: string;
+	attributes: Record<string, string>;
+	children: IXmlElement[];
+	text: string;
+}
+
+/**
+ * Error thrown when a document is not well-formed XML
+ */
+export class XmlSyntaxError extends Error {
+	constructor(
+		reason: string,
+		readonly position: number,
+	) {
+		super(`${reason} (at position ${position})`);
+		this.name = 'XmlSyntaxError';
+	}
+}
+
+const NAME_PATTERN = /[A-Za-z_:\u00C0-\uFFFF][\w.:\u00B7\u00C0-\uFFFF-]*/y;
+
+const WHITESPACE_PATTERN = /\s*/y;
+
+const DOCTYPE_PATTERN = /<!DOCTYPE[^[>]*(?:\[[\s\S]*?\])?\s*>/y;
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+};
+
+/**
+ * Parse an XML document; throws XmlSyntaxError unless it is well-formed with exactly one root element
+ */
+export function parseXml(raw: string): IXmlElement {
+	const xml = raw.replace(/^\uFEFF/, '');
+	const stack: IXmlElement[] = [];
+	let root: IXmlElement | undefined;
+	let position = 0;
+
+	const fail = (reason: string, at = position): never => {
+		throw new XmlSyntaxError(reason, at);
+	};
+
+	const match = (pattern: RegExp): string | undefined => {
+		pattern.lastIndex = position;
+		const found = pattern.exec(xml);
+		if (found) {
+			position += found[0].length;
+		}
+		return found?.[0];
+	};
+
+	const skipWhitespace = (): boolean => (match(WHITESPACE_PATTERN) ?? '') !== '';
+
+	const decode = (text: string, at: number): string =>
+		text.replace(
+			/&(?:#x([0-9A-Fa-f]+)|#(\d+)|([A-Za-z_][\w.-]*))?;?/g,
+			(entity, hex, dec, name) => {
+				if (
+					!entity.endsWith(';') ||
+					(hex === undefined && dec === undefined && name === undefined)
+				) {
+					return fail('Unescaped "&" or unterminated entity', at);
+				}
+				if (name !== undefined) {
+					return name in PREDEFINED_ENTITIES
+						? PREDEFINED_ENTITIES[name]
+						: fail(`Unknown entity "&${name};"`, at);
+				}
+				const code = hex !== undefined ? parseInt(hex, 16) : Number(dec);
+				return code <= 0x10ffff
+					? String.fromCodePoint(code)
+					: fail(`Invalid character reference "${entity}"`, at);
+			},
+		);
+
+	const readUntil = (terminator: string, what: string): string => {
+		const end = xml.indexOf(terminator, position);
+		if (end === -1) {
+			fail(`Unclosed ${what}`);
+		}
+		const content = xml.slice(position, end);
+		position = end + terminator.length;
+		return content;
+	};
+
+	const readOpenTag = (): void => {
+		const start = position;
+		position++;
+		const name = match(NAME_PATTERN) ?? fail('Invalid element name');
+		if (root && stack.length === 0) {
+			fail('Only one root element is allowed', start);
+		}
+
+		const element: IXmlElement = { name, attributes: {}, children: [], text: '' };
+		for (;;) {
+			const spaced = skipWhitespace();
+			if (xml.startsWith('/>', position) || xml.startsWith('>', position)) {
+				break;
+			}
+			const attributeName = spaced ? match(NAME_PATTERN) : undefined;
+			if (attributeName === undefined) {
+				fail(`Invalid attribute in <${name}>`);
+			} else {
+				skipWhitespace();
+				if (xml[position] !== '=') {
+					fail(`Attribute "${attributeName}" has no value`);
+				}
+				position++;
+				skipWhitespace();
+				const quote = xml[position];
+				if (quote !== '"' && quote !== "'") {
+					fail(`Value of attribute "${attributeName}" is not quoted`);
+				}
+				position++;
+				const valueStart = position;
+				const value = readUntil(quote, `value of attribute "${attributeName}"`);
+				if (value.includes('<')) {
+					fail(`Value of attribute "${attributeName}" contains "<"`, valueStart);
+				}
+				if (attributeName in element.attributes) {
+					fail(`Duplicate attribute "${attributeName}" in <${name}>`, valueStart);
+				}
+				element.attributes[attributeName] = decode(value, valueStart);
+			}
+		}
+
+		const parent = stack[stack.length - 1];
+		if (parent) {
+			parent.children.push(element);
+		} else {
+			root = element;
+		}
+		if (xml.startsWith('/>', position)) {
+			position += 2;
+		} else {
+			position++;
+			stack.push(element);
+		}
+	};
+
+	const readCloseTag = (): void => {
+		const start = position;
+		position += 2;
+		const name = match(NAME_PATTERN) ?? fail('Invalid closing tag');
+		skipWhitespace();
+		if (xml[position] !== '>') {
+			fail(`Unclosed closing tag </${name}>`);
+		}
+		position++;
+		const open = stack.pop();
+		if (open?.name !== name) {
+			fail(
+				open ? `Unexpected </${name}>, expected </${open.name}>` : `Unexpected </${name}>`,
+				start,
+			);
+		}
+	};
+
+	while (position < xml.length) {
+		const current = stack[stack.length - 1];
+		const next = xml.indexOf('<', position);
+		const textEnd = next === -1 ? xml.length : next;
+
+		if (textEnd > position) {
+			const text = xml.slice(position, textEnd);
+			if (current) {
+				current.text += decode(text, position);
+			} else if (text.trim() !== '') {
+				fail('Text outside the root element');
+			}
+			position = textEnd;
+		} else if (xml.startsWith('<!--', position)) {
+			position += 4;
+			readUntil('-->', 'comment');
+		} else if (xml.startsWith('<![CDATA[', position)) {
+			if (!current) {
+				fail('CDATA outside the root element');
+			}
+			position += 9;
+			const data = readUntil(']]>', 'CDATA section');
+			if (current) {
+				current.text += data;
+			}
+		} else if (xml.startsWith('<?', position)) {
+			position += 2;
+			readUntil('?>', 'processing instruction');
+		} else if (xml.startsWith('<!DOCTYPE', position)) {
+			if (root) {
+				fail('DOCTYPE after the root element');
+			}
+			if (match(DOCTYPE_PATTERN) === undefined) {
+				fail('Invalid DOCTYPE');
+			}
+		} else if (xml.startsWith('</', position)) {
+			readCloseTag();
+		} else {
+			readOpenTag();
+		}
+	}
+
+	if (stack.length > 0) {
+		fail(`Unclosed element <${stack[stack.length - 1].name}>`);
+	}
+	return root ?? fail('No root element found');
+}
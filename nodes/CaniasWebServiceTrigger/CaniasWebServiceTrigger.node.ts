@@ -0,0 +1,357 @@
+import {
+	ICredentialDataDecryptedObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+	NodeOperationError,
+} from 'n8n-workflow';
+
+import type {
+	IWatermarkState,
+	OutputParsing,
+	WatermarkMode,
+	WsdlSource,
+} from '../CaniasWebService/types';
+import { formatDate, parseDate } from '../CaniasWebService/argsBuilder';
+import { getClient } from '../CaniasWebService/clientCache';
+import { caniasWebServiceApiTest } from '../CaniasWebService/credentialTest';
+import { applyEnvironment, getEnvironments } from '../CaniasWebService/environments';
+import { handleSOAPError, validateServiceId } from '../CaniasWebService/errorHandling';
+import { searchServices } from '../CaniasWebService/listSearch';
+import {
+	parseCallServiceResponse,
+	parseServiceResult,
+	ResultParseError,
+} from '../CaniasWebService/responseParsing';
+import { closeSession, openSession, resolveLoginRequest } from '../CaniasWebService/session';
+import { extractTable } from '../CaniasWebService/tableParsing';
+import { getTransportConfig } from '../CaniasWebService/transport';
+import { selectLatestRows, selectNewRows } from './watermark';
+
+/**
+ * Text in the args that is replaced with the current watermark
+ */
+const WATERMARK_PLACEHOLDER = '%WATERMARK%';
+
+/**
+ * Number of latest rows a manual run returns when there are no new rows
+ */
+const MANUAL_SAMPLE_SIZE = 5;
+
+interface ITriggerOptions {
+	argsDateFormat?: string;
+	disableSslVerification?: boolean;
+	outputParsing?: OutputParsing;
+	rowPath?: string;
+	timeout?: number;
+}
+
+export class CaniasWebServiceTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Canias WebService Trigger',
+		name: 'caniasWebServiceTrigger',
+		icon: { light: 'file:canias.png', dark: 'file:canias.png' },
+		group: ['trigger'],
+		version: 1,
+		description: 'Starts the workflow when a CANIAS IAS service returns new records',
+		defaults: {
+			name: 'Canias WebService Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: ['main'],
+		credentials: [
+			{
+				name: 'caniasWebServiceApi',
+				required: true,
+				testedBy: 'caniasWebServiceApiTest',
+			},
+		],
+		usableAsTool: true,
+		properties: [
+			{
+				displayName: 'Environment Name or ID',
+				name: 'environment',
+				type: 'options',
+				typeOptions: { loadOptionsMethod: 'getEnvironments' },
+				default: '',
+				description:
+					'Environment profile of the credential to poll. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Endpoint Override',
+				name: 'endpoint',
+				type: 'string',
+				default: '',
+				description:
+					'Optional. Override the service endpoint URL if different from the WSDL binding address (also used with the bundled WSDL).',
+			},
+			{
+				displayName: 'Service ID',
+				name: 'serviceid',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a service...',
+						typeOptions: {
+							searchListMethod: 'searchServices',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'e.g. SALESORDERLIST',
+					},
+				],
+			},
+			{
+				displayName: 'Args',
+				name: 'args',
+				type: 'string',
+				default: '',
+				placeholder: `e.g. ${WATERMARK_PLACEHOLDER}`,
+				description: `The args string passed to the service. ${WATERMARK_PLACEHOLDER} is replaced with the last watermark (or the initial watermark on the first poll).`,
+			},
+			{
+				displayName: 'Return Type',
+				name: 'returntype',
+				type: 'string',
+				default: 'json',
+				required: true,
+				description: 'Desired return type as expected by the service (e.g. JSON, XML or string)',
+			},
+			{
+				displayName: 'Watermark Type',
+				name: 'watermarkMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Timestamp',
+						value: 'timestamp',
+						description:
+							'Last change or creation time (ISO, DD.MM.YYYY HH:mm:ss or YYYYMMDDHHmmss)',
+					},
+					{ name: 'ID', value: 'id', description: 'Highest record ID' },
+				],
+				default: 'timestamp',
+			},
+			{
+				displayName: 'Watermark Field',
+				name: 'watermarkField',
+				type: 'string',
+				default: '',
+				required: true,
+				placeholder: 'e.g. CHANGEDAT',
+				description:
+					'Row field holding the timestamp or ID. Only rows with a higher value than the last poll are emitted.',
+			},
+			{
+				displayName: 'Initial Watermark',
+				name: 'initialWatermark',
+				type: 'string',
+				default: '',
+				description:
+					'Watermark used for the first poll. When empty, all rows of the first poll are emitted.',
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [
+					{
+						displayName: 'Args Date Format',
+						name: 'argsDateFormat',
+						type: 'string',
+						default: '',
+						placeholder: 'dd.MM.yyyy HH:mm:ss',
+						description:
+							'Format of the timestamp watermark in the args (tokens yyyy, MM, dd, HH, mm, ss). Inserted as stored when empty.',
+					},
+					{
+						displayName: 'Disable SSL Verification',
+						name: 'disableSslVerification',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to ignore SSL certificate errors (not recommended for production)',
+					},
+					{
+						displayName: 'Output Parsing',
+						name: 'outputParsing',
+						type: 'options',
+						options: [
+							{
+								name: 'Auto',
+								value: 'auto',
+								description:
+									'Parse according to the return type (JSON/XML), otherwise detect JSON or XML payloads',
+							},
+							{ name: 'JSON', value: 'json', description: 'Parse the result as JSON' },
+							{ name: 'XML', value: 'xml', description: 'Convert the XML result to JSON' },
+						],
+						default: 'auto',
+					},
+					{
+						displayName: 'Row Path',
+						name: 'rowPath',
+						type: 'string',
+						default: '',
+						placeholder: 'RESPONSE.TABLE',
+						description:
+							'Dot path to the table or row array in the parsed result. Detected automatically when empty.',
+					},
+					{
+						displayName: 'Timeout (Ms)',
+						name: 'timeout',
+						type: 'number',
+						default: 120000,
+						description: 'Request timeout in milliseconds',
+					},
+				],
+			},
+		],
+	};
+
+	methods = {
+		credentialTest: {
+			caniasWebServiceApiTest,
+		},
+		listSearch: {
+			searchServices,
+		},
+		loadOptions: {
+			getEnvironments,
+		},
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const baseCredentials = await this.getCredentials('caniasWebServiceApi');
+		const serviceId = this.getNodeParameter('serviceid', '', { extractValue: true }) as string;
+		const argsTemplate = this.getNodeParameter('args', '') as string;
+		const returntype = this.getNodeParameter('returntype') as string;
+		const watermarkMode = this.getNodeParameter('watermarkMode') as WatermarkMode;
+		const watermarkField = this.getNodeParameter('watermarkField') as string;
+		const initialWatermark = this.getNodeParameter('initialWatermark', '') as string;
+		const options = this.getNodeParameter('options', {}) as ITriggerOptions;
+
+		validateServiceId(serviceId);
+
+		let credentials: ICredentialDataDecryptedObject;
+		try {
+			credentials = applyEnvironment(
+				baseCredentials,
+				this.getNodeParameter('environment', '') as string,
+			);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), error as Error, {
+				description:
+					'Check the Environment parameter and the Environment Profiles of the credential',
+			});
+		}
+
+		// Watermark survives between polls in the workflow static data
+		const staticData = this.getWorkflowStaticData('node');
+		const state: IWatermarkState = {
+			watermark: (staticData.watermark as string | undefined) ?? (initialWatermark || undefined),
+			seen: (staticData.seen as string[] | undefined) ?? [],
+		};
+
+		let argsWatermark = state.watermark ?? '';
+		if (watermarkMode === 'timestamp' && options.argsDateFormat && state.watermark) {
+			const date = parseDate(state.watermark);
+			argsWatermark = date ? formatDate(date, options.argsDateFormat) : state.watermark;
+		}
+		const args = argsTemplate.split(WATERMARK_PLACEHOLDER).join(argsWatermark);
+
+		let returnValue: unknown;
+		try {
+			const client = await getClient(
+				{
+					wsdlUrl: credentials.wsdlUrl as string,
+					wsdlSource: (credentials.wsdlSource as WsdlSource) || undefined,
+					localWsdlPath: (credentials.localWsdlPath as string) || undefined,
+					endpoint:
+						(this.getNodeParameter('endpoint', '') as string) ||
+						(credentials.endpoint as string | undefined) ||
+						undefined,
+					timeout: options.timeout ?? 120000,
+					disableSslVerification: options.disableSslVerification ?? false,
+					...getTransportConfig(credentials),
+				},
+				this.helpers,
+			);
+
+			// Every poll uses its own session and always logs out
+			const sessionId = await openSession(client, resolveLoginRequest(credentials));
+			try {
+				const [res] = await client.callIASServiceAsync({
+					sessionid: sessionId,
+					serviceid: serviceId,
+					args,
+					returntype,
+					permanent: false,
+				});
+				returnValue = parseCallServiceResponse(res);
+			} finally {
+				await closeSession(client, sessionId).catch(() => undefined);
+			}
+		} catch (error) {
+			handleSOAPError(error, this.getNode(), 0, 'callIASService');
+		}
+
+		let result: unknown;
+		try {
+			result = parseServiceResult(returnValue, options.outputParsing ?? 'auto', returntype);
+		} catch (error) {
+			if (error instanceof ResultParseError) {
+				throw new NodeOperationError(this.getNode(), error.message, {
+					description: `Raw ${error.format} payload: ${error.snippet}`,
+				});
+			}
+			throw error;
+		}
+
+		const table =
+			result === null || result === undefined || result === ''
+				? { rows: [] }
+				: extractTable(result, { rowPath: options.rowPath });
+		if (!table) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`No table found in the service result (return type "${returntype}")`,
+				{ description: 'Set the Row Path option to point at the rows' },
+			);
+		}
+
+		const selection = selectNewRows(table.rows, watermarkField, watermarkMode, state);
+		const { state: nextState, skipped } = selection;
+		let rows = selection.rows;
+		if (skipped.length > 0) {
+			this.logger.warn(
+				`CANIAS trigger skipped ${skipped.length} row(s) without a usable watermark field "${watermarkField}" (rows ${skipped.join(', ')})`,
+			);
+		}
+
+		// Manual runs show data without moving the watermark; without new rows they show the latest ones
+		if (this.getMode() === 'manual') {
+			if (rows.length === 0) {
+				rows = selectLatestRows(table.rows, watermarkField, watermarkMode, MANUAL_SAMPLE_SIZE);
+			}
+		} else {
+			staticData.watermark = nextState.watermark;
+			staticData.seen = nextState.seen;
+		}
+
+		return rows.length > 0 ? [this.helpers.returnJsonArray(rows)] : null;
+	}
+}
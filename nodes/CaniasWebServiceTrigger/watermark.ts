@@ -0,0 +1,132 @@
+/**
+ * Watermark tracking for the CANIAS WebService trigger
+ * Decides which rows of a poll are new and advances the stored watermark
+ */
+
+import { createHash } from 'crypto';
+import type { IDataObject } from 'n8n-workflow';
+import { parseDate } from '../CaniasWebService/argsBuilder';
+import type { IWatermarkState, WatermarkMode } from '../CaniasWebService/types';
+
+/**
+ * Read the watermark field of a row (dot paths are supported)
+ */
+export function getWatermarkValue(row: IDataObject, field: string): string | undefined {
+	const value = field
+		.split('.')
+		.reduce<unknown>(
+			(current, part) =>
+				typeof current === 'object' && current !== null
+					? (current as IDataObject)[part]
+					: undefined,
+			row,
+		);
+	return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+/**
+ * Compare two watermark values; timestamps as dates, numeric values as numbers, otherwise as text
+ */
+export function compareWatermarks(a: string, b: string, mode: WatermarkMode): number {
+	if (mode === 'timestamp') {
+		const dateA = parseDate(a);
+		const dateB = parseDate(b);
+		if (dateA && dateB) {
+			return dateA.getTime() - dateB.getTime();
+		}
+	}
+
+	// Numeric IDs and compact timestamps (e.g. 20250131235959)
+	if (/^-?\d+(\.\d+)?$/.test(a) && /^-?\d+(\.\d+)?$/.test(b)) {
+		return Number(a) - Number(b);
+	}
+
+	return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Whether a value can be compared as a watermark; timestamps must be dates or compact numeric timestamps
+ */
+function isUsableWatermark(value: string | undefined, mode: WatermarkMode): value is string {
+	if (value === undefined) {
+		return false;
+	}
+	return mode !== 'timestamp' || parseDate(value) !== undefined || /^\d+$/.test(value);
+}
+
+function getRowFingerprint(row: IDataObject): string {
+	return createHash('sha256').update(JSON.stringify(row)).digest('hex');
+}
+
+/**
+ * Select the rows that are newer than the stored watermark and compute the next watermark state.
+ * Rows with exactly the watermark timestamp are emitted once, so records sharing a timestamp are not lost.
+ * Rows without a usable watermark value are skipped and reported by their 1-based number,
+ * so one bad row does not stop the trigger.
+ */
+export function selectNewRows(
+	rows: IDataObject[],
+	field: string,
+	mode: WatermarkMode,
+	state: IWatermarkState,
+): { rows: IDataObject[]; state: IWatermarkState; skipped: number[] } {
+	const seen = new Set(state.seen ?? []);
+	const skipped: number[] = [];
+	const entries: Array<{ row: IDataObject; value: string; fingerprint: string }> = [];
+	rows.forEach((row, index) => {
+		const value = getWatermarkValue(row, field);
+		if (isUsableWatermark(value, mode)) {
+			entries.push({ row, value, fingerprint: getRowFingerprint(row) });
+		} else {
+			skipped.push(index + 1);
+		}
+	});
+
+	const newEntries = entries.filter(({ value, fingerprint }) => {
+		if (state.watermark === undefined) {
+			return true;
+		}
+		const comparison = compareWatermarks(value, state.watermark, mode);
+		// IDs are unique, only timestamps can be shared by rows that were not emitted yet
+		return comparison > 0 || (mode === 'timestamp' && comparison === 0 && !seen.has(fingerprint));
+	});
+
+	let watermark = state.watermark;
+	for (const { value } of newEntries) {
+		if (watermark === undefined || compareWatermarks(value, watermark, mode) > 0) {
+			watermark = value;
+		}
+	}
+
+	// Remember the rows at the new watermark; keep older fingerprints while it did not move
+	const atWatermark = newEntries
+		.filter(
+			({ value }) => watermark !== undefined && compareWatermarks(value, watermark, mode) === 0,
+		)
+		.map(({ fingerprint }) => fingerprint);
+	const nextSeen = watermark === state.watermark ? [...seen, ...atWatermark] : atWatermark;
+
+	return {
+		rows: newEntries.map(({ row }) => row),
+		state: { watermark, seen: nextSeen },
+		skipped,
+	};
+}
+
+/**
+ * The rows with the highest watermarks, in their original order.
+ * Manual runs show them when nothing is new, so the trigger still has sample data to map.
+ */
+export function selectLatestRows(
+	rows: IDataObject[],
+	field: string,
+	mode: WatermarkMode,
+	limit: number,
+): IDataObject[] {
+	return rows
+		.map((row, index) => ({ row, index, value: getWatermarkValue(row, field) ?? '' }))
+		.sort((a, b) => compareWatermarks(b.value, a.value, mode))
+		.slice(0, limit)
+		.sort((a, b) => a.index - b.index)
+		.map(({ row }) => row);
+}
@@ -0,0 +1,78 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+	FixtureStore,
+	REPLAYED_SESSION_ID,
+	staticDataStorage,
+} = require('../dist/nodes/CaniasWebService/fixtures');
+const { validateSessionId } = require('../dist/nodes/CaniasWebService/errorHandling');
+const { openSession } = require('../dist/nodes/CaniasWebService/session');
+
+const LOGIN = {
+	p_strClient: '00',
+	p_strLanguage: 'T',
+	p_strDBName: 'IAS',
+	p_strDBServer: 'DB',
+	p_strAppServer: 'APP:27499',
+	p_strUserName: 'USER',
+	p_strPassword: 'secret',
+};
+
+const CALL = {
+	serviceid: 'GETORDERS',
+	args: '{"b":2,"a":1}',
+	returntype: 'JSON',
+	permanent: false,
+};
+
+/**
+ * SOAP client stub that answers like CANIAS with a real session ID
+ */
+function createLiveClient() {
+	return {
+		loginAsync: async () => [
+			{ loginReturn: 'LIVE-SESSION-42' },
+			'<loginReturn>LIVE-SESSION-42</loginReturn>',
+			{},
+		],
+		callIASServiceAsync: async ({ sessionid }) => [
+			{ callIASServiceReturn: '[{"ORDER":"1"}]' },
+			`<response session="${sessionid}">[{"ORDER":"1"}]</response>`,
+			{},
+		],
+		logoutAsync: async () => [{}, '<logoutResponse/>', {}],
+	};
+}
+
+test('a recorded manual login, call and logout chain replays with a valid session ID', async () => {
+	const staticData = {};
+
+	// Record: login, then call and logout with the returned session ID as a manual session would
+	const recording = new FixtureStore(staticDataStorage(staticData));
+	await recording.load();
+	const recorder = recording.createRecordingClient(createLiveClient());
+	const liveSession = await openSession(recorder, LOGIN);
+	await recorder.callIASServiceAsync({ sessionid: liveSession, ...CALL });
+	await recorder.logoutAsync({ p_strSessionId: liveSession });
+	await recording.save();
+
+	assert.doesNotMatch(JSON.stringify(staticData), /LIVE-SESSION-42|secret/);
+
+	// Replay: the session ID of the login step is passed on to the next steps
+	const replaying = new FixtureStore(staticDataStorage(staticData));
+	await replaying.load();
+	const replay = replaying.createReplayClient();
+	const sessionId = await openSession(replay, { ...LOGIN, p_strPassword: 'other' });
+
+	assert.equal(sessionId, REPLAYED_SESSION_ID);
+	assert.doesNotThrow(() => validateSessionId(sessionId));
+
+	const [result] = await replay.callIASServiceAsync({
+		sessionid: sessionId,
+		...CALL,
+		args: '{"a":1,"b":2}',
+	});
+	assert.deepEqual(result, { callIASServiceReturn: '[{"ORDER":"1"}]' });
+	await replay.logoutAsync({ p_strSessionId: sessionId });
+});
@@ -0,0 +1,47 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { selectNewRows } = require('../dist/nodes/CaniasWebServiceTrigger/watermark');
+
+test('selectNewRows emits rows newer than the watermark', () => {
+	const rows = [{ ID: '1' }, { ID: '2' }, { ID: '3' }];
+
+	const { rows: newRows, state, skipped } = selectNewRows(rows, 'ID', 'id', { watermark: '1' });
+
+	assert.deepEqual(newRows, [{ ID: '2' }, { ID: '3' }]);
+	assert.equal(state.watermark, '3');
+	assert.deepEqual(skipped, []);
+});
+
+test('selectNewRows skips rows without a usable watermark instead of failing the poll', () => {
+	const rows = [
+		{ ID: '5', CHANGED: '2025-01-02T10:00:00' },
+		{ ID: '6' },
+		{ ID: '7', CHANGED: '' },
+		{ ID: '8', CHANGED: 'not a date' },
+		{ ID: '9', CHANGED: '2025-01-03T08:00:00' },
+	];
+
+	const {
+		rows: newRows,
+		state,
+		skipped,
+	} = selectNewRows(rows, 'CHANGED', 'timestamp', {
+		watermark: '2025-01-01T00:00:00',
+	});
+
+	assert.deepEqual(
+		newRows.map((row) => row.ID),
+		['5', '9'],
+	);
+	assert.equal(state.watermark, '2025-01-03T08:00:00');
+	assert.deepEqual(skipped, [2, 3, 4]);
+});
+
+test('selectNewRows keeps the watermark when every row is skipped', () => {
+	const { rows, state, skipped } = selectNewRows([{ ID: '' }, {}], 'ID', 'id', { watermark: '4' });
+
+	assert.deepEqual(rows, []);
+	assert.equal(state.watermark, '4');
+	assert.deepEqual(skipped, [1, 2]);
+});